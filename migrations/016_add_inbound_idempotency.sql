@@ -0,0 +1,23 @@
+-- Deduplicate inbound Twilio webhooks on MessageSid
+-- Twilio retries webhooks, so the same message can be delivered more than once
+
+-- Remove any duplicate messages left behind by earlier retries (keep the oldest)
+DELETE FROM messages m
+USING messages dup
+WHERE m.twilio_sid IS NOT NULL
+  AND m.twilio_sid = dup.twilio_sid
+  AND (m.created_at, m.id::text) > (dup.created_at, dup.id::text);
+
+-- One row per Twilio message SID (NULLs are still allowed for failed sends)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_twilio_sid_unique ON messages(twilio_sid);
+
+-- Track which inbound message / attachment each document came from
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS twilio_message_sid VARCHAR(64),
+ADD COLUMN IF NOT EXISTS media_index INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_twilio_media_unique
+ON documents(twilio_message_sid, media_index);
+
+COMMENT ON COLUMN documents.twilio_message_sid IS 'Twilio MessageSid of the inbound message this document arrived in';
+COMMENT ON COLUMN documents.media_index IS 'Attachment position (MediaUrlN) within the inbound message';
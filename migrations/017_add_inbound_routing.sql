@@ -0,0 +1,34 @@
+-- Route inbound WhatsApp messages by the practice's Twilio number
+ALTER TABLE accountants
+ADD COLUMN IF NOT EXISTS twilio_phone_number VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_accountants_twilio_phone_number
+ON accountants(twilio_phone_number) WHERE twilio_phone_number IS NOT NULL;
+
+COMMENT ON COLUMN accountants.twilio_phone_number IS 'Twilio WhatsApp number clients message (used to route inbound messages to this practice)';
+
+-- Holding queue for messages whose sender is a client of several practices
+-- and whose To number doesn't identify a single practice
+CREATE TABLE IF NOT EXISTS held_inbound_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  twilio_sid VARCHAR(64) UNIQUE NOT NULL,
+  from_phone VARCHAR(50) NOT NULL,
+  to_phone VARCHAR(50),
+  body TEXT,
+  num_media INTEGER DEFAULT 0,
+  payload JSONB NOT NULL,
+  candidate_accountant_ids UUID[] NOT NULL,
+  status VARCHAR(20) DEFAULT 'held',
+  claimed_by UUID REFERENCES accountants(id) ON DELETE SET NULL,
+  claimed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_held_inbound_messages_candidates
+ON held_inbound_messages USING GIN (candidate_accountant_ids);
+
+CREATE INDEX IF NOT EXISTS idx_held_inbound_messages_status ON held_inbound_messages(status);
+
+COMMENT ON TABLE held_inbound_messages IS 'Inbound messages that matched clients at more than one practice, waiting to be claimed';
+COMMENT ON COLUMN held_inbound_messages.payload IS 'Raw Twilio webhook params, replayed when the message is claimed';
+COMMENT ON COLUMN held_inbound_messages.status IS 'held, claimed';
@@ -0,0 +1,11 @@
+-- Store the MIME type of each inbound document so it can be processed later
+-- (e.g. after an unassigned document is assigned to a campaign)
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS mime_type VARCHAR(100);
+
+-- Unassigned documents (conversion_status = 'unassigned') have no campaign yet
+CREATE INDEX IF NOT EXISTS idx_documents_unassigned
+ON documents(accountant_id, created_at DESC) WHERE conversion_status = 'unassigned';
+
+COMMENT ON COLUMN documents.mime_type IS 'MIME type reported by Twilio for the attachment';
+COMMENT ON COLUMN documents.conversion_status IS 'unassigned, pending_upload, converting, converted, conversion_failed';
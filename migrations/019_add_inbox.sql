@@ -0,0 +1,36 @@
+-- Inbox for inbound messages that couldn't be filed automatically:
+-- senders that aren't a client of the practice, or clients with no active campaign
+CREATE TABLE IF NOT EXISTS inbox_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  accountant_id UUID NOT NULL REFERENCES accountants(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+  campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+  twilio_sid VARCHAR(64) UNIQUE NOT NULL,
+  from_phone VARCHAR(50) NOT NULL,
+  profile_name VARCHAR(255),
+  body TEXT,
+  reason VARCHAR(30) NOT NULL,
+  status VARCHAR(20) DEFAULT 'open',
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_messages_accountant_status
+ON inbox_messages(accountant_id, status, created_at DESC);
+
+COMMENT ON COLUMN inbox_messages.reason IS 'unknown_sender, no_active_campaign';
+COMMENT ON COLUMN inbox_messages.status IS 'open, linked, attached, discarded';
+
+-- Media attached to inbox messages, uploaded to the Drive "Unsorted" folder
+CREATE TABLE IF NOT EXISTS inbox_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inbox_message_id UUID NOT NULL REFERENCES inbox_messages(id) ON DELETE CASCADE,
+  media_index INTEGER NOT NULL,
+  original_url TEXT NOT NULL,
+  mime_type VARCHAR(100),
+  drive_file_id VARCHAR(255),
+  drive_file_url TEXT,
+  upload_error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (inbox_message_id, media_index)
+);
@@ -0,0 +1,40 @@
+-- Durable Postgres-backed job queue
+-- Workers claim jobs with FOR UPDATE SKIP LOCKED; a running job whose locked_until
+-- has passed (worker crashed / redeployed) becomes claimable again
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMP,
+  last_error TEXT,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Claim query scans queued jobs that are due and running jobs whose lock expired
+CREATE INDEX IF NOT EXISTS idx_jobs_queued ON jobs(run_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_jobs_running ON jobs(locked_until) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_jobs_type_status ON jobs(type, status);
+
+COMMENT ON COLUMN jobs.status IS 'queued, running, completed, failed';
+COMMENT ON COLUMN jobs.run_at IS 'Earliest time the job may run (pushed back exponentially on retry)';
+COMMENT ON COLUMN jobs.locked_until IS 'Visibility timeout - the job is reclaimed if still running after this';
+
+-- BankToFile conversions are polled by jobs instead of in-process
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS banktofile_job_id VARCHAR(255);
+
+COMMENT ON COLUMN documents.banktofile_job_id IS 'BankToFile conversion job being polled for this document';
+
+-- Re-queue documents left stuck in pending_upload by the old fire-and-forget processing
+INSERT INTO jobs (type, payload)
+SELECT 'process_document', json_build_object('documentId', id)::jsonb
+FROM documents
+WHERE conversion_status = 'pending_upload'
+  AND drive_file_id IS NULL
+  AND campaign_id IS NOT NULL;
@@ -0,0 +1,11 @@
+-- Documents now move to 'uploaded' once they reach Drive, so anything still
+-- 'pending_upload' genuinely hasn't been uploaded yet
+UPDATE documents
+SET conversion_status = 'uploaded'
+WHERE conversion_status = 'pending_upload' AND drive_file_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_failed
+ON documents(campaign_id) WHERE conversion_status IN ('upload_failed', 'conversion_failed');
+
+COMMENT ON COLUMN documents.conversion_status IS 'unassigned, pending_upload, uploaded, upload_failed, pending_conversion, converting, converted, conversion_failed';
+COMMENT ON COLUMN documents.conversion_error IS 'Why the last Drive upload or CSV conversion attempt failed';
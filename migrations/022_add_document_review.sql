@@ -0,0 +1,15 @@
+-- Manual review of incoming documents
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS review_status VARCHAR(20) DEFAULT 'awaiting_review',
+ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+
+-- Everything collected before the review step existed counts as accepted
+UPDATE documents SET review_status = 'accepted' WHERE reviewed_at IS NULL AND created_at < NOW();
+
+CREATE INDEX IF NOT EXISTS idx_documents_review_status
+ON documents(accountant_id, review_status) WHERE review_status = 'awaiting_review';
+
+COMMENT ON COLUMN documents.review_status IS 'awaiting_review, accepted, rejected';
+COMMENT ON COLUMN documents.rejection_reason IS 'Reason given to the client when the document was rejected';
+COMMENT ON COLUMN campaign_clients.status IS 'pending, awaiting_review, received, failed';
@@ -0,0 +1,12 @@
+-- Accountant default timezone for reminder scheduling
+ALTER TABLE accountants
+ADD COLUMN IF NOT EXISTS timezone VARCHAR(50) NOT NULL DEFAULT 'Europe/London';
+
+-- Campaigns inherit the accountant's timezone unless one is set explicitly
+ALTER TABLE campaigns ALTER COLUMN reminder_timezone DROP DEFAULT;
+
+-- The old column default was never chosen by anyone (the API didn't accept it)
+UPDATE campaigns SET reminder_timezone = NULL WHERE reminder_timezone = 'America/New_York';
+
+COMMENT ON COLUMN accountants.timezone IS 'IANA timezone used for reminder send times when a campaign has none';
+COMMENT ON COLUMN campaigns.reminder_timezone IS 'IANA timezone for reminder send time (NULL = accountant timezone)';
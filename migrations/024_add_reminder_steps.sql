@@ -0,0 +1,84 @@
+-- Ordered reminder steps per campaign, replacing the fixed reminder 1/2/flag settings
+CREATE TABLE IF NOT EXISTS campaign_reminder_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  delay_days INTEGER NOT NULL,
+  channel VARCHAR(20),
+  template VARCHAR(50),
+  action VARCHAR(20),
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (campaign_id, step_order)
+);
+
+COMMENT ON COLUMN campaign_reminder_steps.delay_days IS 'Days after the first message before this step runs';
+COMMENT ON COLUMN campaign_reminder_steps.channel IS 'whatsapp, email (NULL = no message, action only)';
+COMMENT ON COLUMN campaign_reminder_steps.template IS 'document_reminder, document_request';
+COMMENT ON COLUMN campaign_reminder_steps.action IS 'flag, escalate (NULL = message only)';
+
+-- One row per step run for each campaign client
+CREATE TABLE IF NOT EXISTS reminder_step_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_client_id UUID NOT NULL REFERENCES campaign_clients(id) ON DELETE CASCADE,
+  step_id UUID NOT NULL REFERENCES campaign_reminder_steps(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL,
+  error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (campaign_client_id, step_id)
+);
+
+COMMENT ON COLUMN reminder_step_log.status IS 'sent, skipped, flagged, escalated';
+
+-- Migrate existing campaigns: reminder 1, reminder 2 and the flag step
+INSERT INTO campaign_reminder_steps (campaign_id, step_order, delay_days, channel, template, action)
+SELECT id, 1, COALESCE(reminder_1_days, 3), 'whatsapp', 'document_reminder', NULL
+FROM campaigns WHERE reminder_day_3 = true
+ON CONFLICT (campaign_id, step_order) DO NOTHING;
+
+INSERT INTO campaign_reminder_steps (campaign_id, step_order, delay_days, channel, template, action)
+SELECT id, 2, COALESCE(reminder_2_days, 6), 'whatsapp', 'document_reminder', NULL
+FROM campaigns WHERE reminder_day_6 = true
+ON CONFLICT (campaign_id, step_order) DO NOTHING;
+
+INSERT INTO campaign_reminder_steps (campaign_id, step_order, delay_days, channel, template, action)
+SELECT id, 3, COALESCE(reminder_3_days, 9), NULL, NULL, 'flag'
+FROM campaigns WHERE flag_after_day_9 = true
+ON CONFLICT (campaign_id, step_order) DO NOTHING;
+
+-- Carry over what has already happened so nothing is sent twice
+INSERT INTO reminder_step_log (campaign_client_id, step_id, status, created_at)
+SELECT cc.id, s.id, 'sent', cc.reminder_3_sent_at
+FROM campaign_clients cc
+JOIN campaign_reminder_steps s ON s.campaign_id = cc.campaign_id AND s.step_order = 1
+WHERE cc.reminder_3_sent_at IS NOT NULL
+ON CONFLICT (campaign_client_id, step_id) DO NOTHING;
+
+INSERT INTO reminder_step_log (campaign_client_id, step_id, status, created_at)
+SELECT cc.id, s.id, 'sent', cc.reminder_6_sent_at
+FROM campaign_clients cc
+JOIN campaign_reminder_steps s ON s.campaign_id = cc.campaign_id AND s.step_order = 2
+WHERE cc.reminder_6_sent_at IS NOT NULL
+ON CONFLICT (campaign_client_id, step_id) DO NOTHING;
+
+INSERT INTO reminder_step_log (campaign_client_id, step_id, status, created_at)
+SELECT cc.id, s.id, 'flagged', cc.stuck_at
+FROM campaign_clients cc
+JOIN campaign_reminder_steps s ON s.campaign_id = cc.campaign_id AND s.step_order = 3
+WHERE cc.status = 'failed' AND cc.stuck_at IS NOT NULL
+ON CONFLICT (campaign_client_id, step_id) DO NOTHING;
+
+-- The fixed columns are replaced by the tables above
+ALTER TABLE campaign_clients
+DROP COLUMN IF EXISTS reminder_3_sent_at,
+DROP COLUMN IF EXISTS reminder_6_sent_at;
+
+ALTER TABLE campaigns
+DROP COLUMN IF EXISTS reminder_day_3,
+DROP COLUMN IF EXISTS reminder_day_6,
+DROP COLUMN IF EXISTS flag_after_day_9,
+DROP COLUMN IF EXISTS reminder_1_days,
+DROP COLUMN IF EXISTS reminder_2_days,
+DROP COLUMN IF EXISTS reminder_3_days;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_clients_reminders
+ON campaign_clients(status, first_message_sent_at);
@@ -0,0 +1,18 @@
+-- Campaigns can count reminder delays in working days and skip weekends/holidays
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS business_days_only BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN campaigns.business_days_only IS 'Count reminder delays in working days and never send on weekends or holidays';
+
+-- Per-accountant holiday calendar (bank holidays, office closures)
+CREATE TABLE IF NOT EXISTS accountant_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  accountant_id UUID NOT NULL REFERENCES accountants(id) ON DELETE CASCADE,
+  holiday_date DATE NOT NULL,
+  name VARCHAR(255),
+  source VARCHAR(20) DEFAULT 'manual',
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (accountant_id, holiday_date)
+);
+
+COMMENT ON COLUMN accountant_holidays.source IS 'manual, ics';
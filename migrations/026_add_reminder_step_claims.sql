@@ -0,0 +1,3 @@
+-- Reminder steps are claimed (logged as 'claimed') before anything is sent, then updated
+-- with the outcome, so overlapping scheduler runs can't message a client twice
+COMMENT ON COLUMN reminder_step_log.status IS 'claimed, sent, skipped, flagged, escalated';
@@ -0,0 +1,19 @@
+-- Per-client contact preferences, honored by reminders and campaign start
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS preferred_contact_time TIME,
+ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+ADD COLUMN IF NOT EXISTS quiet_hours_end TIME,
+ADD COLUMN IF NOT EXISTS preferred_language VARCHAR(10),
+ADD COLUMN IF NOT EXISTS do_not_contact_until DATE;
+
+COMMENT ON COLUMN clients.preferred_contact_time IS 'Replaces the campaign send time for this client (campaign timezone)';
+COMMENT ON COLUMN clients.quiet_hours_start IS 'No messages between quiet_hours_start and quiet_hours_end (may wrap past midnight)';
+COMMENT ON COLUMN clients.preferred_language IS 'Language code used to pick message templates, e.g. en, cy';
+COMMENT ON COLUMN clients.do_not_contact_until IS 'First date the client can be contacted again (e.g. back from holiday)';
+
+-- Latest reason a reminder or first message was held back for the client
+ALTER TABLE campaign_clients
+ADD COLUMN IF NOT EXISTS deferred_reason VARCHAR(30),
+ADD COLUMN IF NOT EXISTS deferred_at TIMESTAMP;
+
+COMMENT ON COLUMN campaign_clients.deferred_reason IS 'do_not_contact, quiet_hours, non_working_day (cleared when a message goes out)';
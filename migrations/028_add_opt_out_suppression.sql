@@ -0,0 +1,36 @@
+-- Extra words (besides STOP / UNSUBSCRIBE) that opt a client out when sent on their own
+ALTER TABLE accountants
+ADD COLUMN IF NOT EXISTS opt_out_keywords TEXT[] DEFAULT '{}';
+
+COMMENT ON COLUMN accountants.opt_out_keywords IS 'Practice-specific opt-out synonyms, matched case-insensitively against the whole message';
+
+-- Numbers a practice must not message, because the client replied STOP (or a synonym)
+CREATE TABLE IF NOT EXISTS suppressed_numbers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  accountant_id UUID NOT NULL REFERENCES accountants(id) ON DELETE CASCADE,
+  phone VARCHAR(50) NOT NULL,
+  client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+  keyword VARCHAR(50),
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (accountant_id, phone)
+);
+
+-- Audit trail of opt-outs and of the practice clearing them
+CREATE TABLE IF NOT EXISTS opt_out_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  accountant_id UUID NOT NULL REFERENCES accountants(id) ON DELETE CASCADE,
+  phone VARCHAR(50) NOT NULL,
+  client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+  action VARCHAR(20) NOT NULL,
+  keyword VARCHAR(50),
+  body TEXT,
+  twilio_sid VARCHAR(64),
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (accountant_id, twilio_sid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_opt_out_events_twilio_sid ON opt_out_events(twilio_sid);
+CREATE INDEX IF NOT EXISTS idx_opt_out_events_accountant ON opt_out_events(accountant_id, created_at DESC);
+
+COMMENT ON COLUMN opt_out_events.action IS 'opted_out, cleared';
+COMMENT ON COLUMN opt_out_events.twilio_sid IS 'Inbound message that triggered the opt-out (NULL when cleared by the practice)';
@@ -0,0 +1,40 @@
+-- People at the practice that failed clients can be handed to
+CREATE TABLE IF NOT EXISTS team_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  accountant_id UUID NOT NULL REFERENCES accountants(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_accountant ON team_members(accountant_id);
+
+-- What happens when a reminder sequence flags a client as failed
+ALTER TABLE accountants
+ADD COLUMN IF NOT EXISTS escalation_notify_accountant BOOLEAN DEFAULT true,
+ADD COLUMN IF NOT EXISTS escalation_client_channel VARCHAR(10),
+ADD COLUMN IF NOT EXISTS escalation_assignee_id UUID REFERENCES team_members(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN accountants.escalation_notify_accountant IS 'Notify (and email, if notification_stuck) the accountant when a client is flagged';
+COMMENT ON COLUMN accountants.escalation_client_channel IS 'Last-chance message to the flagged client: sms, email, or NULL for none';
+COMMENT ON COLUMN accountants.escalation_assignee_id IS 'Team member flagged clients are reassigned to (NULL to leave unassigned)';
+
+-- Who at the practice is following a campaign client up
+ALTER TABLE campaign_clients
+ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES team_members(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP;
+
+-- Each escalation action taken for a flagged campaign client
+CREATE TABLE IF NOT EXISTS escalation_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_client_id UUID NOT NULL REFERENCES campaign_clients(id) ON DELETE CASCADE,
+  action VARCHAR(30) NOT NULL,
+  status VARCHAR(20) NOT NULL,
+  detail TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_escalation_log_campaign_client ON escalation_log(campaign_client_id, created_at);
+
+COMMENT ON COLUMN escalation_log.action IS 'notify_accountant, client_sms, client_email, reassign';
+COMMENT ON COLUMN escalation_log.status IS 'done, skipped, failed';
@@ -0,0 +1,11 @@
+-- Opt-in digest email summarising collection progress, instead of one email per event
+ALTER TABLE accountants
+ADD COLUMN IF NOT EXISTS digest_frequency VARCHAR(10),
+ADD COLUMN IF NOT EXISTS digest_send_time TIME DEFAULT '08:00',
+ADD COLUMN IF NOT EXISTS digest_weekday SMALLINT DEFAULT 1,
+ADD COLUMN IF NOT EXISTS digest_last_sent_on DATE;
+
+COMMENT ON COLUMN accountants.digest_frequency IS 'daily, weekly, or NULL for per-event emails only';
+COMMENT ON COLUMN accountants.digest_send_time IS 'Local time (in accountants.timezone) the digest goes out';
+COMMENT ON COLUMN accountants.digest_weekday IS 'Day weekly digests go out: 0 = Sunday ... 6 = Saturday';
+COMMENT ON COLUMN accountants.digest_last_sent_on IS 'Local date of the last digest, so each one is only sent once';
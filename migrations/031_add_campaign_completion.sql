@@ -0,0 +1,11 @@
+-- Campaigns complete themselves once every client is done
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS complete_when VARCHAR(20) DEFAULT 'all_received',
+ADD COLUMN IF NOT EXISTS clients_total INTEGER,
+ADD COLUMN IF NOT EXISTS clients_received INTEGER,
+ADD COLUMN IF NOT EXISTS clients_failed INTEGER,
+ADD COLUMN IF NOT EXISTS success_rate NUMERIC(5, 2);
+
+COMMENT ON COLUMN campaigns.complete_when IS 'all_received (every client received) or all_resolved (every client received or failed)';
+COMMENT ON COLUMN campaigns.clients_total IS 'Summary recorded when the campaign completes';
+COMMENT ON COLUMN campaigns.success_rate IS 'Percentage of clients received at completion';
@@ -0,0 +1,49 @@
+-- Free-form tags on clients, so templates can target e.g. every "monthly-bookkeeping" client
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_clients_tags ON clients USING GIN (tags);
+
+-- Reusable campaign settings, optionally recreated on a schedule
+CREATE TABLE IF NOT EXISTS campaign_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  accountant_id UUID NOT NULL REFERENCES accountants(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  campaign_name VARCHAR(255) NOT NULL,
+  document_type VARCHAR(50) DEFAULT 'bank_statement',
+  reminder_steps JSONB NOT NULL DEFAULT '[]',
+  reminder_send_time TIME DEFAULT '10:00',
+  reminder_timezone VARCHAR(64),
+  business_days_only BOOLEAN DEFAULT false,
+  initial_message TEXT,
+  complete_when VARCHAR(20) DEFAULT 'all_received',
+  client_ids UUID[] DEFAULT '{}',
+  client_tags TEXT[] DEFAULT '{}',
+  recurrence VARCHAR(20),
+  recurrence_cron VARCHAR(100),
+  period_unit VARCHAR(10) DEFAULT 'month',
+  period_offset INTEGER DEFAULT -1,
+  auto_start BOOLEAN DEFAULT false,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  last_campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_templates_accountant ON campaign_templates(accountant_id);
+CREATE INDEX IF NOT EXISTS idx_campaign_templates_next_run ON campaign_templates(next_run_at) WHERE next_run_at IS NOT NULL;
+
+COMMENT ON COLUMN campaign_templates.campaign_name IS 'Name for created campaigns; {period} is replaced with the period string';
+COMMENT ON COLUMN campaign_templates.client_tags IS 'Clients with any of these tags are added, on top of client_ids';
+COMMENT ON COLUMN campaign_templates.recurrence IS 'monthly, quarterly, cron, or NULL for manual use only';
+COMMENT ON COLUMN campaign_templates.recurrence_cron IS 'Cron expression in the campaign timezone: the expression itself for cron, or derived for monthly/quarterly';
+COMMENT ON COLUMN campaign_templates.period_unit IS 'month ("January 2026") or quarter ("Q1 2026")';
+COMMENT ON COLUMN campaign_templates.period_offset IS 'Periods relative to the run date, e.g. -1 collects last month''s statements';
+
+-- Campaigns remember the template they came from; each template creates one campaign per period
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES campaign_templates(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_campaigns_template_period
+ON campaigns(template_id, period) WHERE template_id IS NOT NULL;
@@ -0,0 +1,8 @@
+-- Draft campaigns can be set to start themselves at a future moment
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS scheduled_start_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_scheduled_start
+ON campaigns(scheduled_start_at) WHERE status = 'draft' AND scheduled_start_at IS NOT NULL;
+
+COMMENT ON COLUMN campaigns.scheduled_start_at IS 'When a draft campaign starts automatically; NULL = started by hand. Cleared when it starts or is cancelled';
@@ -0,0 +1,12 @@
+-- Campaign start queues each client's first message as a job instead of sending inline
+ALTER TABLE campaign_clients
+ADD COLUMN IF NOT EXISTS first_message_queued_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS first_message_error TEXT;
+
+-- Existing clients were either sent inline or never will be; don't let the resume on boot send them late
+UPDATE campaign_clients
+SET first_message_queued_at = COALESCE(first_message_sent_at, NOW())
+WHERE first_message_queued_at IS NULL;
+
+COMMENT ON COLUMN campaign_clients.first_message_queued_at IS 'When the first message send job was queued; NULL with no first_message_sent_at means the start was interrupted before this client';
+COMMENT ON COLUMN campaign_clients.first_message_error IS 'Why the first message could not be sent (last attempt), cleared when it goes out';
@@ -0,0 +1,57 @@
+-- A campaign can request several documents at once (e.g. year-end: bank statements, P60, receipts)
+CREATE TABLE IF NOT EXISTS campaign_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  document_type VARCHAR(50) NOT NULL,
+  label VARCHAR(255) NOT NULL,
+  required BOOLEAN DEFAULT true,
+  item_order INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(campaign_id, document_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_items_campaign ON campaign_items(campaign_id, item_order);
+
+COMMENT ON TABLE campaign_items IS 'Checklist of documents a campaign asks each client for';
+COMMENT ON COLUMN campaign_items.label IS 'How the item is described to clients, e.g. "P60"';
+COMMENT ON COLUMN campaign_items.required IS 'A client counts as received once every required item is received';
+
+-- Each client's progress on each item; a missing row means pending
+CREATE TABLE IF NOT EXISTS campaign_client_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_client_id UUID NOT NULL REFERENCES campaign_clients(id) ON DELETE CASCADE,
+  campaign_item_id UUID NOT NULL REFERENCES campaign_items(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  received_at TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(campaign_client_id, campaign_item_id)
+);
+
+COMMENT ON COLUMN campaign_client_items.status IS 'pending, awaiting_review, received';
+
+-- The checklist item a document was matched to
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS campaign_item_id UUID REFERENCES campaign_items(id) ON DELETE SET NULL;
+
+-- Templates carry a checklist too
+ALTER TABLE campaign_templates
+ADD COLUMN IF NOT EXISTS items JSONB NOT NULL DEFAULT '[]';
+
+-- Existing campaigns get a single item from their document_type
+INSERT INTO campaign_items (campaign_id, document_type, label, item_order)
+SELECT id, COALESCE(document_type, 'bank_statement'), REPLACE(COALESCE(document_type, 'bank_statement'), '_', ' '), 1
+FROM campaigns
+ON CONFLICT (campaign_id, document_type) DO NOTHING;
+
+INSERT INTO campaign_client_items (campaign_client_id, campaign_item_id, status, received_at)
+SELECT cc.id, ci.id,
+       CASE WHEN cc.status IN ('received', 'awaiting_review') THEN cc.status ELSE 'pending' END,
+       CASE WHEN cc.status = 'received' THEN cc.received_at END
+FROM campaign_clients cc
+JOIN campaign_items ci ON ci.campaign_id = cc.campaign_id
+ON CONFLICT (campaign_client_id, campaign_item_id) DO NOTHING;
+
+UPDATE documents d
+SET campaign_item_id = ci.id
+FROM campaign_items ci
+WHERE ci.campaign_id = d.campaign_id AND d.campaign_item_id IS NULL;
@@ -0,0 +1,22 @@
+-- Twilio numbers are assigned to practices by an admin and can't be shared
+-- Store them without the whatsapp: prefix so uniqueness can't be dodged by formatting
+UPDATE accountants
+SET twilio_phone_number = NULLIF(TRIM(REPLACE(twilio_phone_number, 'whatsapp:', '')), '')
+WHERE twilio_phone_number IS NOT NULL;
+
+-- A number claimed by several practices never routed anyway; clear it so an admin can reassign it
+UPDATE accountants
+SET twilio_phone_number = NULL
+WHERE twilio_phone_number IN (
+  SELECT twilio_phone_number FROM accountants
+  WHERE twilio_phone_number IS NOT NULL
+  GROUP BY twilio_phone_number
+  HAVING COUNT(*) > 1
+);
+
+DROP INDEX IF EXISTS idx_accountants_twilio_phone_number;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accountants_twilio_phone_number
+ON accountants(twilio_phone_number) WHERE twilio_phone_number IS NOT NULL;
+
+COMMENT ON COLUMN accountants.twilio_phone_number IS 'E.164 Twilio number dedicated to this practice, assigned by an admin (routes inbound messages to it). Never the shared platform sender';
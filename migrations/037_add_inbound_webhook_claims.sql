@@ -0,0 +1,21 @@
+-- Claim each inbound Twilio MessageSid before processing it
+-- The claim is made in the same transaction as everything the message stores, so a retry
+-- that arrives mid-processing waits for it and then skips, and a failed attempt leaves
+-- nothing behind for the retry to trip over
+CREATE TABLE IF NOT EXISTS inbound_webhooks (
+  twilio_sid VARCHAR(64) PRIMARY KEY,
+  received_at TIMESTAMP DEFAULT NOW()
+);
+
+COMMENT ON TABLE inbound_webhooks IS 'Inbound Twilio MessageSids that have been processed (one row per message, whatever it was filed as)';
+
+-- Messages already processed before claims existed
+INSERT INTO inbound_webhooks (twilio_sid)
+SELECT twilio_sid FROM messages WHERE direction = 'inbound' AND twilio_sid IS NOT NULL
+UNION
+SELECT twilio_sid FROM held_inbound_messages
+UNION
+SELECT twilio_sid FROM inbox_messages WHERE twilio_sid IS NOT NULL
+UNION
+SELECT twilio_sid FROM opt_out_events WHERE twilio_sid IS NOT NULL
+ON CONFLICT (twilio_sid) DO NOTHING;
@@ -0,0 +1,6 @@
+-- Restart a client's reminder sequence (e.g. after a rejected document) without
+-- rewriting when their first message was actually sent
+ALTER TABLE campaign_clients
+ADD COLUMN IF NOT EXISTS reminders_restarted_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN campaign_clients.reminders_restarted_at IS 'When the reminder sequence was last restarted; reminder delays count from this instead of first_message_sent_at when set';
@@ -0,0 +1,8 @@
+-- First messages from every campaign share one send rate (they all go out from the same number)
+-- Each queued send reserves the next slot here, so campaigns starting together queue behind each other
+CREATE TABLE IF NOT EXISTS send_rate_slots (
+  name VARCHAR(50) PRIMARY KEY,
+  next_slot_at TIMESTAMPTZ NOT NULL
+);
+
+COMMENT ON TABLE send_rate_slots IS 'Next free send slot per rate-limited stream (CAMPAIGN_SEND_RATE_PER_MINUTE)';
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import 'dotenv/config';
+
+// Signs sample Twilio webhook payloads with your TWILIO_AUTH_TOKEN so the
+// signature-verified webhook endpoints can be exercised locally.
+//
+// Usage:
+//   node sign-twilio-webhook.js inbound          # print signature + curl command
+//   node sign-twilio-webhook.js status --send    # POST it to TWILIO_STATUS_CALLBACK_URL (or API_URL)
+//   node sign-twilio-webhook.js inbound --tamper # send with a broken signature (expect 403)
+//   node sign-twilio-webhook.js inbound --send --repeat 3
+//                                                # simulate Twilio retrying the same delivery
+
+const authToken = process.env.TWILIO_AUTH_TOKEN;
+const apiUrl = (process.env.API_URL || 'http://localhost:3001').replace(/\/$/, '');
+
+const SAMPLE_PAYLOADS = {
+  inbound: {
+    path: '/api/webhooks/twilio',
+    params: {
+      MessageSid: 'SM00000000000000000000000000000001',
+      AccountSid: process.env.TWILIO_ACCOUNT_SID || 'ACxxxxxxxxxxxxxxxxxxxxxxxxxxxxx',
+      From: 'whatsapp:+447700900123',
+      To: process.env.TWILIO_PHONE_NUMBER || 'whatsapp:+14155238886',
+      Body: 'Here are my statements',
+      NumMedia: '2',
+      MediaUrl0: 'https://api.twilio.com/2010-04-01/Accounts/AC123/Messages/MM1/Media/ME1',
+      MediaContentType0: 'image/jpeg',
+      MediaUrl1: 'https://api.twilio.com/2010-04-01/Accounts/AC123/Messages/MM1/Media/ME2',
+      MediaContentType1: 'image/jpeg',
+      ProfileName: 'Test Client',
+    },
+  },
+  status: {
+    path: '/api/webhooks/twilio/status',
+    params: {
+      MessageSid: 'SM00000000000000000000000000000002',
+      MessageStatus: 'delivered',
+    },
+  },
+};
+
+function sign(url, params) {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+
+  return crypto.createHmac('sha1', authToken).update(data).digest('base64');
+}
+
+async function main() {
+  const [type = 'inbound', ...flags] = process.argv.slice(2);
+  const sample = SAMPLE_PAYLOADS[type];
+
+  if (!sample) {
+    console.error(`Unknown payload "${type}". Use one of: ${Object.keys(SAMPLE_PAYLOADS).join(', ')}`);
+    process.exit(1);
+  }
+
+  if (!authToken) {
+    console.error('❌ TWILIO_AUTH_TOKEN is not set');
+    process.exit(1);
+  }
+
+  // Status callbacks are posted to (and signed against) the URL registered on each send
+  const url = type === 'status' && process.env.TWILIO_STATUS_CALLBACK_URL
+    ? process.env.TWILIO_STATUS_CALLBACK_URL
+    : `${apiUrl}${sample.path}`;
+  let signature = sign(url, sample.params);
+
+  if (flags.includes('--tamper')) {
+    signature = signature.slice(0, -2) + 'xx';
+  }
+
+  const body = new URLSearchParams(sample.params).toString();
+
+  console.log('\n🔏 Signed Twilio webhook payload:');
+  console.log('─────────────────────────────────────');
+  console.log('URL:', url);
+  console.log('X-Twilio-Signature:', signature);
+  console.log('\ncurl -X POST', `'${url}'`, `-H 'X-Twilio-Signature: ${signature}'`, `--data '${body}'`);
+  console.log('─────────────────────────────────────\n');
+
+  if (flags.includes('--send')) {
+    const repeatIndex = flags.indexOf('--repeat');
+    const deliveries = repeatIndex === -1 ? 1 : parseInt(flags[repeatIndex + 1]) || 2;
+
+    // Retries reuse the same MessageSid, exactly like Twilio does
+    for (let attempt = 1; attempt <= deliveries; attempt++) {
+      const response = await axios.post(url, body, {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'X-Twilio-Signature': signature,
+        },
+        validateStatus: () => true,
+      });
+
+      console.log(`📬 Delivery ${attempt}/${deliveries}: ${response.status} ${JSON.stringify(response.data)}`);
+    }
+
+    if (deliveries > 1) {
+      console.log(`\n🔍 Check: SELECT COUNT(*) FROM messages WHERE twilio_sid = '${sample.params.MessageSid}'; -- expect 1`);
+    }
+  }
+}
+
+main();
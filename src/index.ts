@@ -17,8 +17,22 @@ import googleCallbackRouter from './routes/settings/google-callback.js';
 import testRemindersRouter from './routes/test-reminders.js';
 import contactRouter from './routes/contact.js';
 import blogRouter from './routes/blog.js';
+import heldMessagesRouter from './routes/held-messages.js';
+import documentsRouter from './routes/documents.js';
+import inboxRouter from './routes/inbox.js';
+import holidaysRouter from './routes/holidays.js';
+import suppressionsRouter from './routes/suppressions.js';
+import teamMembersRouter from './routes/team-members.js';
+import campaignTemplatesRouter from './routes/campaign-templates.js';
+import adminRouter from './routes/admin.js';
 import { startScheduledJobs } from './services/reminder-service.js';
 import { startBlogScheduler } from './services/blog-scheduler.js';
+import { startDigestScheduler } from './services/digest.js';
+import { startTemplateScheduler } from './services/campaign-templates.js';
+import { startJobWorker } from './services/job-queue.js';
+import { registerDocumentJobs } from './services/document-jobs.js';
+import { registerCampaignJobs, resumeInterruptedStarts } from './services/campaign-jobs.js';
+import { registerScheduledStartJobs } from './services/campaign-schedule.js';
 
 dotenv.config();
 
@@ -83,6 +97,14 @@ app.use('/api/settings/google-auth', googleAuthRouter);
 app.use('/api/settings/google-callback', googleCallbackRouter);
 app.use('/api/contact', contactRouter);
 app.use('/api/blog', blogRouter);
+app.use('/api/held-messages', heldMessagesRouter);
+app.use('/api/documents', documentsRouter);
+app.use('/api/inbox', inboxRouter);
+app.use('/api/holidays', holidaysRouter);
+app.use('/api/suppressions', suppressionsRouter);
+app.use('/api/team-members', teamMembersRouter);
+app.use('/api/campaign-templates', campaignTemplatesRouter);
+app.use('/api/admin', adminRouter);
 
 // Test routes (only in development)
 if (process.env.NODE_ENV === 'development') {
@@ -107,5 +129,26 @@ app.listen(PORT, () => {
 
   // Start blog post scheduler
   startBlogScheduler();
-  console.log('📝 Blog post scheduler initialized\n');
+  console.log('📝 Blog post scheduler initialized');
+
+  // Start daily/weekly digest emails
+  startDigestScheduler();
+  console.log('📋 Digest scheduler initialized');
+
+  // Start recurring campaigns (templates that create their next campaign on a schedule)
+  startTemplateScheduler();
+  console.log('🗂️ Recurring campaign scheduler initialized');
+
+  // Start background job worker (document processing, conversions)
+  // Jobs interrupted by a restart are reclaimed once their visibility timeout passes
+  registerDocumentJobs();
+  registerCampaignJobs();
+  registerScheduledStartJobs();
+  startJobWorker();
+  console.log('🧵 Job worker initialized\n');
+
+  // Queue first messages for any campaign start that was cut off by the last shutdown
+  resumeInterruptedStarts().catch(error => {
+    console.error('❌ Error resuming interrupted campaign starts:', error);
+  });
 });
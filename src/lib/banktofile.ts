@@ -1,21 +1,26 @@
 import axios from 'axios';
 import { db } from './db.js';
+import { enqueueJob } from '../services/job-queue.js';
 
 const BANKTOFILE_API_KEY = process.env.BANKTOFILE_API_KEY;
 const BANKTOFILE_API_URL = 'https://api.banktofile.com/v1';
 
+// Conversion is polled every 10 seconds, for up to 5 minutes
+export const PDF_CONVERSION_POLL_SECONDS = 10;
+export const PDF_CONVERSION_MAX_POLLS = 30;
+
 if (!BANKTOFILE_API_KEY) {
   console.warn('⚠️ BankToFile API key not configured');
 }
 
 /**
- * Convert a bank statement PDF to CSV using BankToFile API
+ * Submit a bank statement PDF to BankToFile for conversion to CSV
+ * BankToFile converts asynchronously - the returned job ID is polled with checkPdfConversion
  */
-export async function convertPdfToCsv(
-  driveFileId: string,
+export async function startPdfConversion(
   driveFileUrl: string,
   documentId: string
-): Promise<{ csvUrl: string; transactions: number }> {
+): Promise<string> {
   if (!BANKTOFILE_API_KEY) {
     throw new Error('BankToFile API key not configured');
   }
@@ -23,14 +28,6 @@ export async function convertPdfToCsv(
   try {
     console.log(`🔄 Converting PDF to CSV: ${driveFileUrl}`);
 
-    // Update document status to converting
-    await db.query(
-      `UPDATE documents
-       SET conversion_status = 'converting'
-       WHERE id = $1`,
-      [documentId]
-    );
-
     // Submit PDF to BankToFile for conversion
     const response = await axios.post(
       `${BANKTOFILE_API_URL}/convert`,
@@ -48,63 +45,105 @@ export async function convertPdfToCsv(
 
     const { job_id } = response.data;
 
-    // Poll for completion (BankToFile is async)
-    let attempts = 0;
-    const maxAttempts = 30; // 5 minutes with 10 second intervals
-
-    while (attempts < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, 10000)); // Wait 10 seconds
-
-      const statusResponse = await axios.get(
-        `${BANKTOFILE_API_URL}/convert/${job_id}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${BANKTOFILE_API_KEY}`,
-          },
-        }
-      );
-
-      const { status, csv_url, transaction_count } = statusResponse.data;
-
-      if (status === 'completed') {
-        console.log(`✅ PDF converted to CSV: ${transaction_count} transactions`);
-
-        // Update document with CSV info
-        await db.query(
-          `UPDATE documents
-           SET csv_drive_file_url = $1,
-               conversion_status = 'converted'
-           WHERE id = $2`,
-          [csv_url, documentId]
-        );
-
-        return { csvUrl: csv_url, transactions: transaction_count };
-      } else if (status === 'failed') {
-        throw new Error('PDF conversion failed');
-      }
+    // Update document status to converting
+    await db.query(
+      `UPDATE documents
+       SET conversion_status = 'converting',
+           conversion_error = NULL,
+           banktofile_job_id = $1
+       WHERE id = $2`,
+      [job_id, documentId]
+    );
+
+    return job_id;
+  } catch (error) {
+    console.error('❌ BankToFile submission error:', error);
+    await markConversionFailed(
+      documentId,
+      `BankToFile submission failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+    throw error;
+  }
+}
 
-      attempts++;
+/**
+ * Check a BankToFile conversion job once
+ * Records the outcome on the document when the job has finished. A failed conversion is
+ * final, so it's recorded and reported rather than thrown for the job queue to retry.
+ */
+export async function checkPdfConversion(
+  jobId: string,
+  documentId: string
+): Promise<'converted' | 'failed' | 'processing'> {
+  if (!BANKTOFILE_API_KEY) {
+    throw new Error('BankToFile API key not configured');
+  }
+
+  const statusResponse = await axios.get(
+    `${BANKTOFILE_API_URL}/convert/${jobId}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${BANKTOFILE_API_KEY}`,
+      },
     }
+  );
 
-    throw new Error('PDF conversion timed out');
-  } catch (error) {
-    console.error('❌ BankToFile conversion error:', error);
+  const { status, csv_url, transaction_count, error: conversionError } = statusResponse.data;
+
+  if (status === 'completed') {
+    console.log(`✅ PDF converted to CSV: ${transaction_count} transactions`);
 
-    // Update document status to conversion_failed
+    // Update document with CSV info
     await db.query(
       `UPDATE documents
-       SET conversion_status = 'conversion_failed'
-       WHERE id = $1`,
-      [documentId]
+       SET csv_drive_file_url = $1,
+           conversion_status = 'converted',
+           conversion_error = NULL
+       WHERE id = $2`,
+      [csv_url, documentId]
     );
 
-    throw error;
+    return 'converted';
+  }
+
+  if (status === 'failed') {
+    const reason = conversionError ? `PDF conversion failed: ${conversionError}` : 'PDF conversion failed';
+    console.error(`❌ ${reason} (document ${documentId})`);
+    await markConversionFailed(documentId, reason);
+    return 'failed';
   }
+
+  return 'processing';
+}
+
+/**
+ * Submit a document for conversion and queue the first status poll
+ */
+export async function convertDocumentToCsv(driveFileUrl: string, documentId: string): Promise<void> {
+  const jobId = await startPdfConversion(driveFileUrl, documentId);
+  await enqueueJob(
+    'poll_pdf_conversion',
+    { documentId, jobId, polls: 0 },
+    { delaySeconds: PDF_CONVERSION_POLL_SECONDS }
+  );
+}
+
+/**
+ * Mark a document's CSV conversion as failed, recording why
+ */
+export async function markConversionFailed(documentId: string, reason: string): Promise<void> {
+  await db.query(
+    `UPDATE documents
+     SET conversion_status = 'conversion_failed',
+         conversion_error = $1
+     WHERE id = $2`,
+    [reason, documentId]
+  );
 }
 
 /**
- * Process a document: Upload to Drive and convert to CSV
- * This is the main function called by the webhook handler
+ * Process a document: Upload to Drive and start the CSV conversion
+ * Run by the process_document job (see services/document-jobs.ts)
  */
 export async function processDocument(
   documentId: string,
@@ -115,12 +154,11 @@ export async function processDocument(
   clientName: string,
   clientPhone: string,
   fileUrl: string,
-  fileType: string
+  fileType: string,
+  pageNumber?: number
 ): Promise<{
   driveFileId: string;
   driveFileUrl: string;
-  csvUrl?: string;
-  transactions?: number;
 }> {
   // Import here to avoid circular dependency
   const { uploadCampaignDocument } = await import('./google-drive.js');
@@ -147,31 +185,18 @@ export async function processDocument(
       clientPhone,
       fileUrl,
       fileType,
-      documentId
+      documentId,
+      pageNumber
     );
 
-    // Step 2: If it's a PDF, convert to CSV
+    // Step 2: If it's a PDF, submit it for CSV conversion
+    // The conversion is polled by the job queue rather than in-process
     if (fileType.includes('pdf')) {
       try {
-        const { csvUrl, transactions } = await convertPdfToCsv(
-          driveFileId,
-          driveFileUrl,
-          documentId
-        );
-
-        return {
-          driveFileId,
-          driveFileUrl,
-          csvUrl,
-          transactions,
-        };
+        await convertDocumentToCsv(driveFileUrl, documentId);
       } catch (conversionError) {
         console.error('⚠️ PDF conversion failed, but file is uploaded to Drive:', conversionError);
         // Don't fail the entire process if conversion fails
-        return {
-          driveFileId,
-          driveFileUrl,
-        };
       }
     }
 
@@ -0,0 +1,135 @@
+/**
+ * Minimal 5-field cron expressions ("minute hour day-of-month month day-of-week")
+ *
+ * node-cron runs our own jobs but can't say when an expression fires next, which
+ * recurring campaigns need to store next_run_at. Supports *, numbers, ranges (1-5),
+ * steps (0-59/15, 1-10/2) and lists (1,15). Like standard cron, when both day-of-month
+ * and day-of-week are restricted a day matching either one fires.
+ */
+
+import { zonedTimeToUtc, getZonedDateTime } from './timezone.js';
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = Sunday
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead to look for the next run (covers e.g. "0 9 29 2 *", Feb 29th)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseField(field: string, min: number, max: number): number[] | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      return null;
+    }
+
+    let start = min;
+    let end = max;
+    if (match[1] !== '*') {
+      const [from, to] = match[1].split('-').map(Number);
+      start = from;
+      end = to ?? (match[2] ? max : from);
+    }
+
+    const step = match[2] ? Number(match[2]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      return null;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a cron expression, or return null if it isn't valid
+ */
+export function parseCron(expression: unknown): CronSchedule | null {
+  if (typeof expression !== 'string') {
+    return null;
+  }
+
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return null;
+  }
+
+  const minutes = parseField(fields[0], 0, 59);
+  const hours = parseField(fields[1], 0, 23);
+  const daysOfMonth = parseField(fields[2], 1, 31);
+  const months = parseField(fields[3], 1, 12);
+  // 7 is also Sunday
+  const daysOfWeek = parseField(fields[4], 0, 7)?.map(day => day % 7);
+
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+    return null;
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek),
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  if (!schedule.months.has(month)) {
+    return false;
+  }
+
+  const dayOfMonth = schedule.daysOfMonth.has(day);
+  const dayOfWeek = schedule.daysOfWeek.has(new Date(Date.UTC(year, month - 1, day)).getUTCDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first time strictly after `after` that the schedule fires, in the given timezone
+ * Returns null if it never fires in the next few years (e.g. "0 0 31 2 *").
+ */
+export function getNextCronRun(schedule: CronSchedule, timezone: string, after: Date): Date | null {
+  const start = getZonedDateTime(after, timezone);
+  const startDayUtc = Date.UTC(start.year, start.month - 1, start.day);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const date = new Date(startDayUtc + offset * DAY_MS);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+
+    if (!matchesDay(schedule, year, month, day)) {
+      continue;
+    }
+
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const runAt = zonedTimeToUtc(year, month, day, hour, minute, timezone);
+        if (runAt.getTime() > after.getTime()) {
+          return runAt;
+        }
+      }
+    }
+  }
+
+  return null;
+}
@@ -1,4 +1,5 @@
-import { Pool, QueryResult, QueryResultRow } from 'pg';
+import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
 import dotenv from 'dotenv';
 
 // Ensure .env is loaded before creating the pool
@@ -11,11 +12,116 @@ const pool = new Pool({
   ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
 });
 
+interface TransactionContext {
+  client: PoolClient;
+  active: boolean;
+  afterCommit: Array<() => void | Promise<void>>;
+}
+
+const transactionContext = new AsyncLocalStorage<TransactionContext>();
+
+/**
+ * Run `fn` in a single transaction
+ *
+ * Every db.query made while `fn` runs, however deep in the service calls, goes through
+ * the transaction's connection, so the work commits or rolls back as one. Nested calls
+ * join the outer transaction. Side effects outside the database (emails, WhatsApp sends)
+ * should be registered with db.afterCommit so a rollback doesn't leave them behind.
+ */
+async function transaction<T>(fn: () => Promise<T>): Promise<T> {
+  if (transactionContext.getStore()?.active) {
+    return fn();
+  }
+
+  const client = await pool.connect();
+  const context: TransactionContext = { client, active: true, afterCommit: [] };
+
+  try {
+    await client.query('BEGIN');
+    const result = await transactionContext.run(context, fn);
+    await client.query('COMMIT');
+    context.afterCommit.forEach(runAfterCommit);
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(rollbackError => {
+      console.error('❌ Rollback failed:', rollbackError);
+    });
+    throw error;
+  } finally {
+    context.active = false;
+    client.release();
+  }
+}
+
+/**
+ * Start `fn` once the current transaction commits, or straight away outside one
+ *
+ * `fn` isn't awaited (the caller carries on, as with any fire-and-forget send) and is
+ * dropped if the transaction rolls back, so a retried request doesn't repeat it.
+ */
+function afterCommit(fn: () => void | Promise<void>): void {
+  const context = transactionContext.getStore();
+
+  if (context?.active) {
+    context.afterCommit.push(fn);
+    return;
+  }
+
+  runAfterCommit(fn);
+}
+
+function runAfterCommit(fn: () => void | Promise<void>): void {
+  Promise.resolve()
+    .then(fn)
+    .catch(error => {
+      console.error('❌ After-commit work failed:', error);
+    });
+}
+
 export const db = {
   query: <T extends QueryResultRow = any>(
     text: string,
     params?: any[]
-  ): Promise<QueryResult<T>> => pool.query<T>(text, params),
+  ): Promise<QueryResult<T>> => {
+    const context = transactionContext.getStore();
+    return context?.active ? context.client.query<T>(text, params) : pool.query<T>(text, params);
+  },
+  transaction,
+  afterCommit,
 };
 
 export default db;
+
+/**
+ * Run `fn` only if no other process holds the named Postgres advisory lock
+ *
+ * Used to make sure a scheduled job runs on one instance at a time when the API is
+ * scaled out. The lock is session-level, so it's taken and released on one dedicated
+ * connection and is dropped automatically if the process dies mid-run.
+ * Returns { acquired: false } without running `fn` if another process has the lock.
+ */
+export async function withAdvisoryLock<T>(
+  lockName: string,
+  fn: () => Promise<T>
+): Promise<{ acquired: true; result: T } | { acquired: false }> {
+  const client = await pool.connect();
+
+  try {
+    const lock = await client.query<{ acquired: boolean }>(
+      'SELECT pg_try_advisory_lock(hashtext($1)) as acquired',
+      [lockName]
+    );
+
+    if (!lock.rows[0]?.acquired) {
+      return { acquired: false };
+    }
+
+    try {
+      return { acquired: true, result: await fn() };
+    } finally {
+      await client.query('SELECT pg_advisory_unlock(hashtext($1))', [lockName]);
+    }
+  } finally {
+    client.release();
+  }
+}
@@ -294,3 +294,129 @@ export function genericNotificationEmail(
 
   return { subject, html: baseTemplate(content) };
 }
+
+/**
+ * Document request / reminder email sent to a client on behalf of the practice
+ * Used by reminder steps on the email channel, so no DocChase account links in the footer.
+ */
+export function clientDocumentReminderEmail(
+  clientName: string,
+  practiceName: string,
+  documentDescription: string,
+  isFirstRequest: boolean = false
+): { subject: string; html: string } {
+  const subject = isFirstRequest
+    ? `${practiceName}: please send your ${documentDescription}`
+    : `Reminder from ${practiceName}: we're still waiting on your ${documentDescription}`;
+
+  const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${subject}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f9fafb;">
+  <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; padding: 30px 20px;">
+    <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+      Hi ${clientName},
+    </p>
+
+    <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+      ${isFirstRequest
+        ? `We need your <strong>${documentDescription}</strong> at your earliest convenience.`
+        : `Just a friendly reminder that we're still waiting on your <strong>${documentDescription}</strong>.`}
+      The quickest way to send it is to reply to our WhatsApp message with a photo or PDF.
+    </p>
+
+    <p style="color: #374151; font-size: 16px; line-height: 1.6;">
+      Thanks,<br>
+      ${practiceName}
+    </p>
+  </div>
+</body>
+</html>
+  `;
+
+  return { subject, html };
+}
+
+/**
+ * What a digest email reports on
+ */
+export interface DigestEmailData {
+  frequency: 'daily' | 'weekly';
+  documentsReceived: Array<{ clientName: string; campaignName: string | null; count: number }>;
+  newlyFlagged: Array<{ clientName: string; campaignName: string }>;
+  deliveryFailures: Array<{ clientName: string | null; campaignName: string | null }>;
+  nearingCompletion: Array<{ campaignName: string; received: number; total: number }>;
+}
+
+function digestSection(title: string, rows: string[], emptyText: string): string {
+  return `
+    <h3 style="color: #111827; margin: 25px 0 10px 0; font-size: 17px;">
+      ${title}
+    </h3>
+    ${rows.length > 0
+      ? `<ul style="color: #374151; font-size: 15px; line-height: 1.6; margin: 0; padding-left: 20px;">
+          ${rows.map(row => `<li>${row}</li>`).join('')}
+        </ul>`
+      : `<p style="color: #6b7280; font-size: 14px; margin: 0;">${emptyText}</p>`}
+  `;
+}
+
+/**
+ * Daily / weekly digest email
+ */
+export function digestEmail(data: DigestEmailData): { subject: string; html: string } {
+  const periodLabel = data.frequency === 'weekly' ? 'this week' : 'today';
+  const documentCount = data.documentsReceived.reduce((total, row) => total + row.count, 0);
+  const subject = `📋 Your ${data.frequency} ${BRAND_NAME} summary: ${documentCount} document${documentCount === 1 ? '' : 's'} received`;
+
+  const campaignSuffix = (campaignName: string | null) => campaignName ? ` <span style="color: #6b7280;">(${campaignName})</span>` : '';
+
+  const content = `
+    <h2 style="color: #111827; margin: 0 0 10px 0; font-size: 22px; text-align: center;">
+      Your ${data.frequency === 'weekly' ? 'Weekly' : 'Daily'} Summary
+    </h2>
+
+    <div style="background-color: #f9fafb; border-radius: 8px; padding: 20px; margin: 20px 0; text-align: center;">
+      <span style="display: inline-block; margin: 0 15px;"><strong style="font-size: 24px; color: ${BRAND_COLOR};">${documentCount}</strong><br><span style="color: #6b7280; font-size: 13px;">documents</span></span>
+      <span style="display: inline-block; margin: 0 15px;"><strong style="font-size: 24px; color: #dc2626;">${data.newlyFlagged.length}</strong><br><span style="color: #6b7280; font-size: 13px;">flagged</span></span>
+      <span style="display: inline-block; margin: 0 15px;"><strong style="font-size: 24px; color: #d97706;">${data.deliveryFailures.length}</strong><br><span style="color: #6b7280; font-size: 13px;">failed deliveries</span></span>
+    </div>
+
+    ${digestSection(
+      '📄 Documents received',
+      data.documentsReceived.map(row => `<strong>${row.clientName}</strong> sent ${row.count > 1 ? `${row.count} documents` : 'a document'}${campaignSuffix(row.campaignName)}`),
+      `No documents ${periodLabel}.`
+    )}
+
+    ${digestSection(
+      '🚩 Clients flagged',
+      data.newlyFlagged.map(row => `<strong>${row.clientName}</strong>${campaignSuffix(row.campaignName)}`),
+      `No clients flagged ${periodLabel}.`
+    )}
+
+    ${digestSection(
+      '❌ Delivery failures',
+      data.deliveryFailures.map(row => `Message to <strong>${row.clientName || 'a client'}</strong> wasn't delivered${campaignSuffix(row.campaignName)}`),
+      'Every message was delivered.'
+    )}
+
+    ${digestSection(
+      '🏁 Campaigns nearly complete',
+      data.nearingCompletion.map(row => `<strong>${row.campaignName}</strong> - ${row.received} of ${row.total} clients received`),
+      'No campaigns are close to finishing yet.'
+    )}
+
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${DASHBOARD_URL}/dashboard" style="display: inline-block; background-color: ${BRAND_COLOR}; color: #ffffff; text-decoration: none; padding: 14px 28px; border-radius: 6px; font-weight: bold; font-size: 16px;">
+        Open Dashboard
+      </a>
+    </div>
+  `;
+
+  return { subject, html: baseTemplate(content) };
+}
@@ -29,6 +29,9 @@ function getBrevoApi() {
   return apiInstance;
 }
 
+// Notification types summarised by the digest email
+const DIGEST_NOTIFICATION_TYPES = ['client_response', 'document_received', 'client_stuck', 'message_failed'];
+
 /**
  * Send an email using Brevo API
  * @param to - Recipient email address
@@ -130,8 +133,9 @@ export async function shouldSendEmail(
       email: string;
       notification_email: boolean;
       notification_stuck: boolean;
+      digest_frequency: string | null;
     }>(
-      'SELECT email, notification_email, notification_stuck FROM accountants WHERE id = $1',
+      'SELECT email, notification_email, notification_stuck, digest_frequency FROM accountants WHERE id = $1',
       [accountantId]
     );
 
@@ -151,6 +155,11 @@ export async function shouldSendEmail(
       return { enabled: false, email: accountant.email };
     }
 
+    // Accountants on a digest get these in the digest rather than one email each
+    if (accountant.digest_frequency && DIGEST_NOTIFICATION_TYPES.includes(notificationType)) {
+      return { enabled: false, email: accountant.email };
+    }
+
     return { enabled: true, email: accountant.email };
   } catch (error) {
     console.error('Error checking email preferences:', error);
@@ -234,20 +234,22 @@ export async function getOrCreateClientFolder(
 
 /**
  * Generate document filename based on naming convention
- * Format: {Document_Type}_{Period}_{Year}.{extension}
- * Example: Bank_Statement_January_2026.pdf
+ * Format: {Document_Type}_{Period}_{Year}[_Page_{N}].{extension}
+ * Example: Bank_Statement_January_2026.pdf, Bank_Statement_January_2026_Page_2.jpg
  *
  * @param documentType - Type of document (e.g., "Bank Statement")
  * @param period - Period (e.g., "January", "Q1", or empty string)
  * @param year - Year (e.g., "2026")
  * @param extension - File extension (e.g., "pdf", "csv")
+ * @param pageNumber - Page number for multi-attachment messages (optional)
  * @returns The formatted filename
  */
 export function generateDocumentFilename(
   documentType: string,
   period: string,
   year: string,
-  extension: string
+  extension: string,
+  pageNumber?: number
 ): string {
   // Sanitize document type (replace spaces with underscores, remove special chars)
   const sanitizedType = documentType
@@ -259,11 +261,13 @@ export function generateDocumentFilename(
     ? period.replace(/[^a-zA-Z0-9 ]/g, '').replace(/\s+/g, '_')
     : '';
 
+  const pageSuffix = pageNumber ? `_Page_${pageNumber}` : '';
+
   // Build filename
   if (sanitizedPeriod) {
-    return `${sanitizedType}_${sanitizedPeriod}_${year}.${extension}`;
+    return `${sanitizedType}_${sanitizedPeriod}_${year}${pageSuffix}.${extension}`;
   } else {
-    return `${sanitizedType}_${year}.${extension}`;
+    return `${sanitizedType}_${year}${pageSuffix}.${extension}`;
   }
 }
 
@@ -403,39 +407,15 @@ export async function disconnectGoogleDrive(accountantId: string): Promise<void>
 }
 
 /**
- * Upload a campaign document to Google Drive using the GettingDocs structure
- *
- * Structure:
- *   GettingDocs/
- *   └── John Smith (7700123)/
- *       ├── Bank_Statement_January_2026.pdf
- *       └── Bank_Statement_January_2026.csv
- *
+ * Get fresh tokens and the accountant's root GettingDocs folder,
+ * recreating the folder if it was never set up or has been deleted
  * @param accountantId - The accountant's ID
- * @param campaignId - The campaign ID
- * @param documentType - Type of document (e.g., "Bank Statement")
- * @param period - Period (e.g., "January", "Q1")
- * @param year - Year (e.g., "2026")
- * @param clientName - The client's name
- * @param clientPhone - The client's phone number
- * @param fileUrl - URL to download the file from (Twilio)
- * @param fileType - MIME type of the file
- * @param documentId - The document ID in database
- * @returns File upload result
+ * @returns Refreshed tokens and the root folder ID
  */
-export async function uploadCampaignDocument(
-  accountantId: string,
-  _campaignId: string,
-  documentType: string,
-  period: string,
-  year: string,
-  clientName: string,
-  clientPhone: string,
-  fileUrl: string,
-  fileType: string,
-  documentId: string
-): Promise<{ driveFileId: string; driveFileUrl: string; driveFileName: string }> {
-  // 1. Get accountant's Google tokens
+async function getAccountantRootFolder(
+  accountantId: string
+): Promise<{ tokens: GoogleTokens; folderId: string }> {
+  // Get accountant's Google tokens
   const accountantData = await getAccountantTokens(accountantId);
 
   if (!accountantData) {
@@ -444,7 +424,7 @@ export async function uploadCampaignDocument(
 
   let { tokens, folderId } = accountantData;
 
-  // 2. Refresh tokens if needed
+  // Refresh tokens if needed
   const freshTokens = await refreshTokensIfNeeded(tokens);
 
   // If tokens were refreshed, update them
@@ -452,7 +432,7 @@ export async function uploadCampaignDocument(
     tokens = freshTokens;
   }
 
-  // 3. Get or create root GettingDocs folder
+  // Get or create root GettingDocs folder
   if (!folderId) {
     console.log('📁 No GettingDocs folder found, creating one...');
     const rootFolder = await getOrCreateRootFolder(freshTokens);
@@ -490,17 +470,15 @@ export async function uploadCampaignDocument(
     }
   }
 
-  // 4. Get or create client folder with phone suffix
-  const clientFolder = await getOrCreateClientFolder(
-    freshTokens,
-    folderId,
-    clientName,
-    clientPhone
-  );
-
-  console.log(`📁 Using client folder: ${clientFolder.name}`);
+  return { tokens: freshTokens, folderId };
+}
 
-  // 5. Download the file from Twilio URL
+/**
+ * Download a media file from Twilio (media URLs require account credentials)
+ * @param fileUrl - The Twilio media URL
+ * @returns The file content
+ */
+export async function downloadTwilioMedia(fileUrl: string): Promise<Buffer> {
   const axios = (await import('axios')).default;
 
   const twilioAccountSid = process.env.TWILIO_ACCOUNT_SID;
@@ -522,9 +500,63 @@ export async function uploadCampaignDocument(
 
   const fileBuffer = Buffer.from(response.data);
 
+  return fileBuffer;
+}
+
+/**
+ * Upload a campaign document to Google Drive using the GettingDocs structure
+ *
+ * Structure:
+ *   GettingDocs/
+ *   └── John Smith (7700123)/
+ *       ├── Bank_Statement_January_2026.pdf
+ *       └── Bank_Statement_January_2026.csv
+ *
+ * @param accountantId - The accountant's ID
+ * @param campaignId - The campaign ID
+ * @param documentType - Type of document (e.g., "Bank Statement")
+ * @param period - Period (e.g., "January", "Q1")
+ * @param year - Year (e.g., "2026")
+ * @param clientName - The client's name
+ * @param clientPhone - The client's phone number
+ * @param fileUrl - URL to download the file from (Twilio)
+ * @param fileType - MIME type of the file
+ * @param documentId - The document ID in database
+ * @param pageNumber - Page number when the client sent several attachments (optional)
+ * @returns File upload result
+ */
+export async function uploadCampaignDocument(
+  accountantId: string,
+  _campaignId: string,
+  documentType: string,
+  period: string,
+  year: string,
+  clientName: string,
+  clientPhone: string,
+  fileUrl: string,
+  fileType: string,
+  documentId: string,
+  pageNumber?: number
+): Promise<{ driveFileId: string; driveFileUrl: string; driveFileName: string }> {
+  // 1-3. Get fresh tokens and the root GettingDocs folder
+  const { tokens: freshTokens, folderId } = await getAccountantRootFolder(accountantId);
+
+  // 4. Get or create client folder with phone suffix
+  const clientFolder = await getOrCreateClientFolder(
+    freshTokens,
+    folderId,
+    clientName,
+    clientPhone
+  );
+
+  console.log(`📁 Using client folder: ${clientFolder.name}`);
+
+  // 5. Download the file from Twilio URL
+  const fileBuffer = await downloadTwilioMedia(fileUrl);
+
   // 6. Generate filename based on naming convention
   const extension = fileType.includes('pdf') ? 'pdf' : fileType.includes('image') ? 'jpg' : 'file';
-  const baseFilename = generateDocumentFilename(documentType, period, year, extension);
+  const baseFilename = generateDocumentFilename(documentType, period, year, extension, pageNumber);
 
   // 7. Check for duplicates and get final unique filename
   const filename = await generateUniqueFilename(freshTokens, clientFolder.id, baseFilename);
@@ -548,7 +580,9 @@ export async function uploadCampaignDocument(
      SET drive_file_id = $1,
          drive_file_url = $2,
          original_filename = $3,
-         drive_folder_id = $4
+         drive_folder_id = $4,
+         conversion_status = CASE WHEN conversion_status IN ('pending_upload', 'upload_failed') THEN 'uploaded' ELSE conversion_status END,
+         conversion_error = NULL
      WHERE id = $5`,
     [uploadResult.id, uploadResult.webViewLink, filename, clientFolder.id, documentId]
   );
@@ -579,3 +613,86 @@ export async function uploadCampaignDocument(
     driveFileName: filename
   };
 }
+
+/**
+ * Get or create the "Unsorted" folder inside GettingDocs
+ * Holds media from unknown senders or clients with no active campaign
+ *
+ * @param tokens - The accountant's Google tokens
+ * @param rootFolderId - The GettingDocs folder ID
+ * @returns The folder metadata
+ */
+export async function getOrCreateUnsortedFolder(
+  tokens: GoogleTokens,
+  rootFolderId: string
+): Promise<{ id: string; name: string; webViewLink: string }> {
+  const oauth2Client = getOAuthClient();
+  oauth2Client.setCredentials(tokens);
+
+  const drive = google.drive({ version: 'v3', auth: oauth2Client });
+
+  const response = await drive.files.list({
+    q: `name = 'Unsorted' and '${rootFolderId}' in parents and mimeType = 'application/vnd.google-apps.folder' and trashed = false`,
+    fields: 'files(id, name, webViewLink)',
+    spaces: 'drive'
+  });
+
+  const existing = response.data.files?.[0];
+  if (existing?.id) {
+    return {
+      id: existing.id,
+      name: existing.name || 'Unsorted',
+      webViewLink: existing.webViewLink || ''
+    };
+  }
+
+  console.log('📁 Creating Unsorted folder...');
+  return createFolder(tokens, 'Unsorted', rootFolderId);
+}
+
+/**
+ * Upload inbox media to Google Drive under GettingDocs/Unsorted
+ *
+ * Structure:
+ *   GettingDocs/
+ *   └── Unsorted/
+ *       └── 447700900123_2026-01-15_1.jpg
+ *
+ * @param accountantId - The accountant's ID
+ * @param fromPhone - The sender's phone number
+ * @param fileUrl - URL to download the file from (Twilio)
+ * @param fileType - MIME type of the file
+ * @param attachmentNumber - Position of the attachment within the message (1-based)
+ * @returns File upload result
+ */
+export async function uploadUnsortedMedia(
+  accountantId: string,
+  fromPhone: string,
+  fileUrl: string,
+  fileType: string,
+  attachmentNumber: number
+): Promise<{ driveFileId: string; driveFileUrl: string; driveFileName: string }> {
+  const { tokens, folderId } = await getAccountantRootFolder(accountantId);
+  const unsortedFolder = await getOrCreateUnsortedFolder(tokens, folderId);
+
+  const fileBuffer = await downloadTwilioMedia(fileUrl);
+
+  const extension = fileType.includes('pdf') ? 'pdf' : fileType.includes('image') ? 'jpg' : 'file';
+  const sanitizedPhone = fromPhone.replace(/[^0-9]/g, '');
+  const date = new Date().toISOString().slice(0, 10);
+  const filename = await generateUniqueFilename(
+    tokens,
+    unsortedFolder.id,
+    `${sanitizedPhone}_${date}_${attachmentNumber}.${extension}`
+  );
+
+  const uploadResult = await uploadToGoogleDrive(tokens, unsortedFolder.id, filename, fileBuffer, fileType);
+
+  console.log(`✅ Unsorted file uploaded to Google Drive: ${uploadResult.webViewLink}`);
+
+  return {
+    driveFileId: uploadResult.id,
+    driveFileUrl: uploadResult.webViewLink,
+    driveFileName: filename
+  };
+}
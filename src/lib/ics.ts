@@ -0,0 +1,112 @@
+/**
+ * Minimal iCalendar (.ics) parsing for holiday calendars
+ *
+ * Only all-day style VEVENTs are needed (e.g. the gov.uk bank holiday feed), so this
+ * reads DTSTART/DTEND/SUMMARY and ignores everything else. Recurring events (RRULE)
+ * aren't expanded - holiday feeds list each year's dates explicitly.
+ */
+
+import { isValidDateKey } from '../services/holidays.js';
+
+export interface IcsHoliday {
+  date: string; // YYYY-MM-DD
+  name: string | null;
+}
+
+// Guard against a bad DTEND turning one event into years of holidays
+const MAX_EVENT_DAYS = 31;
+
+/**
+ * Unfold continuation lines (RFC 5545: a line starting with a space or tab continues the previous one)
+ */
+function unfoldLines(ics: string): string[] {
+  const lines: string[] = [];
+
+  for (const line of ics.split(/\r?\n/)) {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.length > 0) {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Read the date part of a DTSTART/DTEND value ("20261225" or "20261225T090000Z")
+ * Returns null unless it's a real date (e.g. not "20261340")
+ */
+function parseIcsDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  const date = match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+  return isValidDateKey(date) ? date : null;
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+/**
+ * Parse the holidays out of an .ics file
+ * Multi-day all-day events become one holiday per day (DTEND is exclusive).
+ * An event with a date that doesn't exist fails the whole file rather than importing part of it.
+ */
+export function parseIcsHolidays(ics: string): { holidays: IcsHoliday[] } | { error: string } {
+  const holidays: IcsHoliday[] = [];
+  let event: { start: string | null; end: string | null; name: string | null; invalidDate: string | null } | null = null;
+
+  for (const line of unfoldLines(ics)) {
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    // Property name without parameters, e.g. "DTSTART;VALUE=DATE" -> "DTSTART"
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (property === 'BEGIN' && value.trim().toUpperCase() === 'VEVENT') {
+      event = { start: null, end: null, name: null, invalidDate: null };
+    } else if (property === 'END' && value.trim().toUpperCase() === 'VEVENT') {
+      if (event?.invalidDate) {
+        return { error: `Invalid date "${event.invalidDate}"${event.name ? ` in event "${event.name}"` : ''}` };
+      }
+      if (event?.start) {
+        const days = event.end ? daysBetween(event.start, event.end) : 1;
+        for (let offset = 0; offset < Math.min(Math.max(days, 1), MAX_EVENT_DAYS); offset++) {
+          holidays.push({ date: addDays(event.start, offset), name: event.name });
+        }
+      }
+      event = null;
+    } else if (event) {
+      if (property === 'DTSTART' || property === 'DTEND') {
+        const date = parseIcsDate(value);
+        if (!date) {
+          event.invalidDate = value.trim();
+        } else if (property === 'DTSTART') {
+          event.start = date;
+        } else {
+          event.end = date;
+        }
+      } else if (property === 'SUMMARY') {
+        event.name = unescapeText(value) || null;
+      }
+    }
+  }
+
+  return { holidays };
+}
+
+function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(startKey: string, endKey: string): number {
+  return Math.round((Date.parse(`${endKey}T00:00:00Z`) - Date.parse(`${startKey}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { zonedTimeToUtc, getSendWindowDate, parseZonedDateTime } from './timezone.js';
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock time in a non-UTC timezone', () => {
+    // New York is UTC-5 in January and UTC-4 in July
+    assert.equal(zonedTimeToUtc(2026, 1, 15, 9, 0, 'America/New_York').toISOString(), '2026-01-15T14:00:00.000Z');
+    assert.equal(zonedTimeToUtc(2026, 7, 15, 9, 0, 'America/New_York').toISOString(), '2026-07-15T13:00:00.000Z');
+  });
+
+  it('moves a time skipped by spring-forward to the moment the clocks jump to', () => {
+    // London clocks go from 01:00 GMT to 02:00 BST on 29 March 2026, so 01:30 never happens
+    assert.equal(zonedTimeToUtc(2026, 3, 29, 1, 30, 'Europe/London').toISOString(), '2026-03-29T01:30:00.000Z');
+  });
+
+  it('uses the first occurrence of a time repeated by fall-back', () => {
+    // London clocks go from 02:00 BST back to 01:00 GMT on 25 October 2026, so 01:30 happens twice
+    assert.equal(zonedTimeToUtc(2026, 10, 25, 1, 30, 'Europe/London').toISOString(), '2026-10-25T00:30:00.000Z');
+  });
+});
+
+describe('getSendWindowDate', () => {
+  it('matches the window in the accountant\'s timezone, not UTC', () => {
+    // 09:00 in Sydney (UTC+11 in January) is 22:00 UTC the day before
+    assert.equal(getSendWindowDate('09:00', 'Australia/Sydney', new Date('2026-01-14T22:30:00Z')), '2026-01-15');
+    assert.equal(getSendWindowDate('09:00', 'Australia/Sydney', new Date('2026-01-15T09:30:00Z')), null);
+  });
+
+  it('gives a window that crosses midnight to the day it started', () => {
+    // 23:30-00:30 in New York (UTC-5)
+    assert.equal(getSendWindowDate('23:30', 'America/New_York', new Date('2026-01-16T04:45:00Z')), '2026-01-15');
+    assert.equal(getSendWindowDate('23:30', 'America/New_York', new Date('2026-01-16T05:15:00Z')), '2026-01-15');
+    assert.equal(getSendWindowDate('23:30', 'America/New_York', new Date('2026-01-16T05:30:00Z')), null);
+  });
+
+  it('still sends once on a spring-forward day when the send time is skipped', () => {
+    // Hourly cron runs through the night
+    const matches = ['2026-03-28T23:45:00Z', '2026-03-29T00:45:00Z', '2026-03-29T01:45:00Z', '2026-03-29T02:45:00Z']
+      .map(time => getSendWindowDate('01:30', 'Europe/London', new Date(time)))
+      .filter(Boolean);
+
+    // 01:30 local is skipped, so the window runs from 02:30 BST (01:30 UTC) for an hour
+    assert.deepEqual(matches, ['2026-03-29']);
+  });
+
+  it('does not send twice on a fall-back day when the send time repeats', () => {
+    // First 01:30 (BST) is 00:30 UTC; the second (GMT) at 01:30 UTC is outside the window
+    assert.equal(getSendWindowDate('01:30', 'Europe/London', new Date('2026-10-25T00:45:00Z')), '2026-10-25');
+    assert.equal(getSendWindowDate('01:30', 'Europe/London', new Date('2026-10-25T01:45:00Z')), null);
+  });
+});
+
+describe('parseZonedDateTime', () => {
+  it('reads local values in the given timezone and keeps explicit offsets', () => {
+    assert.equal(parseZonedDateTime('2026-07-01T09:00', 'Europe/London')?.toISOString(), '2026-07-01T08:00:00.000Z');
+    assert.equal(parseZonedDateTime('2026-07-01T09:00:00Z', 'Europe/London')?.toISOString(), '2026-07-01T09:00:00.000Z');
+    assert.equal(parseZonedDateTime('not a date', 'Europe/London'), null);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Timezone helpers for scheduling
+ *
+ * All send-time logic works on IANA zone names (e.g. "Europe/London") using Intl,
+ * so it behaves the same whatever timezone the server itself runs in.
+ */
+
+export const DEFAULT_TIMEZONE = 'Europe/London';
+
+// The reminder cron runs hourly, so each send time gets a one-hour window
+export const SEND_WINDOW_MINUTES = 60;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a string is an IANA timezone Intl understands
+ */
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || !timezone) {
+    return false;
+  }
+
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in the given timezone
+ */
+export function getZonedDateTime(date: Date, timezone: string): ZonedDateTime {
+  const parts = getFormatter(timezone).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds
+ */
+function getOffsetMs(date: Date, timezone: string): number {
+  const zoned = getZonedDateTime(date, timezone);
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+  return asUtc - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * Convert a local wall-clock time in a timezone to the instant it happens
+ *
+ * Around DST changes a wall-clock time can happen twice (clocks go back) or not at
+ * all (clocks go forward). We use the first occurrence in the first case, and in the
+ * second case the moment the clocks jump to (e.g. 01:30 on a spring-forward night
+ * in London becomes 02:30 BST), so every local day still has exactly one send time.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string
+): Date {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Offsets either side of the wall-clock time cover any DST change that day
+  const offsetBefore = getOffsetMs(new Date(wallClockAsUtc - DAY_MS / 2), timezone);
+  const offsetAfter = getOffsetMs(new Date(wallClockAsUtc + DAY_MS / 2), timezone);
+
+  const candidates = [wallClockAsUtc - offsetBefore, wallClockAsUtc - offsetAfter]
+    .sort((a, b) => a - b)
+    .filter(candidate => {
+      const zoned = getZonedDateTime(new Date(candidate), timezone);
+      return zoned.hour === hour && zoned.minute === minute;
+    });
+
+  if (candidates.length > 0) {
+    return new Date(candidates[0]);
+  }
+
+  // Skipped by a spring-forward: the pre-change offset lands just after the gap
+  return new Date(wallClockAsUtc - offsetBefore);
+}
+
+/**
+ * Parse "HH:MM" or "HH:MM:SS" (as returned for a Postgres TIME column)
+ */
+export function parseSendTime(sendTime: unknown): { hours: number; minutes: number } | null {
+  if (typeof sendTime !== 'string') {
+    return null;
+  }
+
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(sendTime.trim());
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  return { hours, minutes };
+}
+
+/**
+ * Parse a date-time from a request into the instant it refers to
+ *
+ * Values with an offset or "Z" (e.g. "2026-02-01T09:00:00Z") are taken as given;
+ * local values without one ("2026-02-01T09:00") are read as wall-clock time in `timezone`.
+ */
+export function parseZonedDateTime(value: unknown, timezone: string): Date | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const local = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::\d{2})?$/.exec(value.trim());
+  if (local) {
+    const [year, month, day, hours, minutes] = local.slice(1).map(Number);
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59) {
+      return null;
+    }
+    return zonedTimeToUtc(year, month, day, hours, minutes, timezone);
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(value.trim())) {
+    return null;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Format a zoned date as YYYY-MM-DD
+ */
+export function toDateKey(zoned: Pick<ZonedDateTime, 'year' | 'month' | 'day'>): string {
+  return `${zoned.year}-${String(zoned.month).padStart(2, '0')}-${String(zoned.day).padStart(2, '0')}`;
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant in the given timezone
+ */
+export function getLocalDateKey(date: Date, timezone: string): string {
+  return toDateKey(getZonedDateTime(date, timezone));
+}
+
+/**
+ * Find the send window `now` falls in, returning the local date (YYYY-MM-DD) it belongs to
+ *
+ * The window is [send time, send time + SEND_WINDOW_MINUTES), so an hourly cron lands
+ * in it exactly once per local day. Yesterday's send time is checked too so a window
+ * that crosses midnight (e.g. 23:30-00:30) still matches after the date has rolled over;
+ * in that case the window belongs to yesterday. Returns null outside any window.
+ */
+export function getSendWindowDate(sendTime: string, timezone: string, now: Date = new Date()): string | null {
+  const parsed = parseSendTime(sendTime);
+  if (!parsed) {
+    throw new Error(`Invalid send time: ${sendTime}`);
+  }
+
+  const today = getZonedDateTime(now, timezone);
+  const todayUtc = Date.UTC(today.year, today.month - 1, today.day);
+
+  for (const dayOffset of [0, -1]) {
+    const localDate = new Date(todayUtc + dayOffset * DAY_MS);
+    const sendAt = zonedTimeToUtc(
+      localDate.getUTCFullYear(),
+      localDate.getUTCMonth() + 1,
+      localDate.getUTCDate(),
+      parsed.hours,
+      parsed.minutes,
+      timezone
+    );
+
+    const elapsed = now.getTime() - sendAt.getTime();
+    if (elapsed >= 0 && elapsed < SEND_WINDOW_MINUTES * MINUTE_MS) {
+      return localDate.toISOString().slice(0, 10);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check if `now` falls in the send window for a local send time
+ */
+export function isWithinSendWindow(sendTime: string, timezone: string, now: Date = new Date()): boolean {
+  return getSendWindowDate(sendTime, timezone, now) !== null;
+}
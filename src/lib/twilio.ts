@@ -2,6 +2,7 @@ import twilio from 'twilio';
 import { db } from './db.js';
 import { Message } from '../types/index.js';
 import crypto from 'crypto';
+import { assertNotSuppressed } from '../services/suppression.js';
 
 const accountSid = process.env.TWILIO_ACCOUNT_SID;
 const authToken = process.env.TWILIO_AUTH_TOKEN;
@@ -13,6 +14,28 @@ if (!accountSid || !authToken || !twilioPhone) {
 
 const client = accountSid && authToken ? twilio(accountSid, authToken) : null;
 
+/**
+ * URL Twilio posts delivery status updates to
+ * TWILIO_STATUS_CALLBACK_URL if set, otherwise the status webhook under API_URL. Status
+ * callbacks are signed against this URL, so the signature check uses it too.
+ */
+export function getStatusCallbackUrl(): string | null {
+  const url = process.env.TWILIO_STATUS_CALLBACK_URL ||
+    (process.env.API_URL ? `${process.env.API_URL.replace(/\/$/, '')}/api/webhooks/twilio/status` : null);
+
+  return url && url.startsWith('http') ? url : null;
+}
+
+/**
+ * The shared numbers every practice sends from (without the whatsapp: prefix)
+ * These can never be assigned to a single practice for inbound routing.
+ */
+export function getPlatformSenderNumbers(): string[] {
+  return [twilioPhone, process.env.TWILIO_SMS_NUMBER]
+    .filter((phone): phone is string => !!phone)
+    .map(phone => phone.replace('whatsapp:', '').trim());
+}
+
 /**
  * Send a WhatsApp message using approved Content Template
  * Uses Twilio's Content API with approved templates
@@ -29,14 +52,16 @@ export async function sendWhatsAppTemplate(
     throw new Error('Twilio client not initialized');
   }
 
+  // Never message a number that has opted out (throws SuppressedNumberError)
+  await assertNotSuppressed(accountantId, to);
+
   // Ensure phone number has whatsapp: prefix and country code
   const formattedTo = to.startsWith('whatsapp:') ? to : `whatsapp:${to}`;
   const formattedFrom = twilioPhone!.startsWith('whatsapp:') ? twilioPhone : `whatsapp:${twilioPhone}`;
 
   try {
     // Send via Twilio with Content Template
-    const statusCallbackUrl = process.env.TWILIO_STATUS_CALLBACK_URL ||
-                               (process.env.API_URL ? `${process.env.API_URL}/api/webhooks/twilio/status` : null);
+    const statusCallbackUrl = getStatusCallbackUrl();
 
     const messageOptions: any = {
       from: formattedFrom,
@@ -46,7 +71,7 @@ export async function sendWhatsAppTemplate(
     };
 
     // Only add statusCallback if we have a valid URL
-    if (statusCallbackUrl && statusCallbackUrl.startsWith('http')) {
+    if (statusCallbackUrl) {
       messageOptions.statusCallback = statusCallbackUrl;
     }
 
@@ -95,14 +120,16 @@ export async function sendWhatsApp(
     throw new Error('Twilio client not initialized');
   }
 
+  // Never message a number that has opted out (throws SuppressedNumberError)
+  await assertNotSuppressed(accountantId, to);
+
   // Ensure phone number has whatsapp: prefix and country code
   const formattedTo = to.startsWith('whatsapp:') ? to : `whatsapp:${to}`;
   const formattedFrom = twilioPhone!.startsWith('whatsapp:') ? twilioPhone : `whatsapp:${twilioPhone}`;
 
   try {
     // Send via Twilio with status callback (only if URL is configured)
-    const statusCallbackUrl = process.env.TWILIO_STATUS_CALLBACK_URL ||
-                               (process.env.API_URL ? `${process.env.API_URL}/api/webhooks/twilio/status` : null);
+    const statusCallbackUrl = getStatusCallbackUrl();
 
     const messageOptions: any = {
       from: formattedFrom,
@@ -111,7 +138,7 @@ export async function sendWhatsApp(
     };
 
     // Only add statusCallback if we have a valid URL
-    if (statusCallbackUrl && statusCallbackUrl.startsWith('http')) {
+    if (statusCallbackUrl) {
       messageOptions.statusCallback = statusCallbackUrl;
     }
 
@@ -144,6 +171,74 @@ export async function sendWhatsApp(
   }
 }
 
+/**
+ * Send a plain SMS to a client (escalations, for clients who don't answer on WhatsApp)
+ * Uses TWILIO_SMS_NUMBER, falling back to the main Twilio number without its whatsapp: prefix.
+ */
+export async function sendSms(
+  to: string,
+  body: string,
+  accountantId: string,
+  clientId: string,
+  campaignId?: string
+): Promise<Message> {
+  if (!client) {
+    throw new Error('Twilio client not initialized');
+  }
+
+  await assertNotSuppressed(accountantId, to);
+
+  const smsFrom = (process.env.TWILIO_SMS_NUMBER || twilioPhone!).replace('whatsapp:', '');
+  const formattedTo = to.replace('whatsapp:', '');
+
+  try {
+    const twilioMessage = await client.messages.create({
+      from: smsFrom,
+      to: formattedTo,
+      body,
+    });
+
+    const result = await db.query<Message>(
+      `INSERT INTO messages
+       (accountant_id, client_id, campaign_id, direction, sender, body, twilio_sid, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [accountantId, clientId, campaignId || null, 'outbound', 'system', body, twilioMessage.sid, twilioMessage.status || 'queued']
+    );
+
+    console.log(`✅ SMS sent to ${formattedTo} - SID: ${twilioMessage.sid}`);
+    return result.rows[0];
+  } catch (error) {
+    console.error('❌ Failed to send SMS:', error);
+
+    await db.query(
+      `INSERT INTO messages
+       (accountant_id, client_id, campaign_id, direction, sender, body, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [accountantId, clientId, campaignId || null, 'outbound', 'system', body, 'failed']
+    );
+
+    throw error;
+  }
+}
+
+/**
+ * Compute the signature Twilio sends in the X-Twilio-Signature header
+ * HMAC-SHA1 of the full URL followed by each POST param (sorted by key), base64 encoded
+ */
+export function computeTwilioSignature(
+  token: string,
+  url: string,
+  params: Record<string, any>
+): string {
+  // Sort params alphabetically and concatenate
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+
+  return crypto.createHmac('sha1', token).update(data).digest('base64');
+}
+
 /**
  * Validate Twilio webhook signature
  * This ensures requests actually come from Twilio
@@ -159,23 +254,27 @@ export function validateTwilioSignature(
   }
 
   try {
-    // Sort params alphabetically and concatenate
-    const data = Object.keys(params)
-      .sort()
-      .reduce((acc, key) => acc + key + params[key], url);
+    const expectedSignature = computeTwilioSignature(authToken, url, params);
 
-    // Create HMAC SHA1 signature
-    const hmac = crypto.createHmac('sha1', authToken);
-    hmac.update(data);
-    const expectedSignature = hmac.digest('base64');
+    // Constant-time comparison to avoid leaking the signature via timing
+    const provided = Buffer.from(signature);
+    const expected = Buffer.from(expectedSignature);
 
-    return signature === expectedSignature;
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
   } catch (error) {
     console.error('❌ Signature validation error:', error);
     return false;
   }
 }
 
+/**
+ * A single media attachment on an inbound Twilio message
+ */
+export interface TwilioMediaAttachment {
+  url: string;
+  contentType: string;
+}
+
 /**
  * Parse Twilio webhook payload
  */
@@ -188,9 +287,25 @@ export interface TwilioWebhookPayload {
   MediaUrl0?: string;
   MediaContentType0?: string;
   ProfileName?: string;
+  // All attachments in order (MediaUrl0..MediaUrl{NumMedia-1})
+  media: TwilioMediaAttachment[];
 }
 
 export function parseTwilioWebhook(body: any): TwilioWebhookPayload {
+  const numMedia = parseInt(body.NumMedia || '0') || 0;
+
+  // Twilio sends each attachment as MediaUrlN / MediaContentTypeN
+  const media: TwilioMediaAttachment[] = [];
+  for (let i = 0; i < numMedia; i++) {
+    const url = body[`MediaUrl${i}`];
+    if (url) {
+      media.push({
+        url,
+        contentType: body[`MediaContentType${i}`] || 'unknown',
+      });
+    }
+  }
+
   return {
     MessageSid: body.MessageSid || '',
     From: body.From || '',
@@ -200,6 +315,7 @@ export function parseTwilioWebhook(body: any): TwilioWebhookPayload {
     MediaUrl0: body.MediaUrl0,
     MediaContentType0: body.MediaContentType0,
     ProfileName: body.ProfileName,
+    media,
   };
 }
 
@@ -209,8 +325,25 @@ export function parseTwilioWebhook(body: any): TwilioWebhookPayload {
 export const TWILIO_TEMPLATES = {
   DOCUMENT_REQUEST: 'HXe28b5c8252ebffb74ef647bbb54c95af',
   DOCUMENT_REMINDER: 'HXdb39c84c9ad2301fe0e878ec8405a1bf',
+  DOCUMENT_REJECTED: process.env.TWILIO_DOCUMENT_REJECTED_TEMPLATE_SID || '',
 } as const;
 
+/**
+ * Template SID in a client's preferred language
+ * Translations are configured per template, e.g. TWILIO_DOCUMENT_REMINDER_TEMPLATE_SID_CY;
+ * anything not configured falls back to the default template.
+ */
+export function getTemplateSid(template: keyof typeof TWILIO_TEMPLATES, language?: string | null): string {
+  if (language) {
+    const translated = process.env[`TWILIO_${template}_TEMPLATE_SID_${language.replace('-', '_').toUpperCase()}`];
+    if (translated) {
+      return translated;
+    }
+  }
+
+  return TWILIO_TEMPLATES[template];
+}
+
 /**
  * Send initial document request using approved template
  * Template: "Hi {{1}}, this is Amy from {{2}}. We need your {{3}} at your earliest convenience..."
@@ -222,7 +355,8 @@ export async function sendDocumentRequest(
   documentDescription: string,
   accountantId: string,
   clientId: string,
-  campaignId?: string
+  campaignId?: string,
+  language?: string | null
 ): Promise<Message> {
   // Template variables array format for Twilio
   const variables = {
@@ -233,7 +367,7 @@ export async function sendDocumentRequest(
 
   return sendWhatsAppTemplate(
     to,
-    TWILIO_TEMPLATES.DOCUMENT_REQUEST,
+    getTemplateSid('DOCUMENT_REQUEST', language),
     variables,
     accountantId,
     clientId,
@@ -251,7 +385,8 @@ export async function sendDocumentReminder(
   documentDescription: string,
   accountantId: string,
   clientId: string,
-  campaignId?: string
+  campaignId?: string,
+  language?: string | null
 ): Promise<Message> {
   // Template variables format for Twilio
   const variables = {
@@ -261,7 +396,41 @@ export async function sendDocumentReminder(
 
   return sendWhatsAppTemplate(
     to,
-    TWILIO_TEMPLATES.DOCUMENT_REMINDER,
+    getTemplateSid('DOCUMENT_REMINDER', language),
+    variables,
+    accountantId,
+    clientId,
+    campaignId
+  );
+}
+
+/**
+ * Ask a client to resend after their document was rejected, using approved template
+ * Template: "Hi {{1}}, thanks for sending that over. Unfortunately we couldn't use it: {{2}}. Could you please send your {{3}}?..."
+ */
+export async function sendDocumentRejection(
+  to: string,
+  clientName: string,
+  reason: string,
+  documentDescription: string,
+  accountantId: string,
+  clientId: string,
+  campaignId?: string,
+  language?: string | null
+): Promise<Message> {
+  if (!getTemplateSid('DOCUMENT_REJECTED', language)) {
+    throw new Error('Document rejection template not configured (TWILIO_DOCUMENT_REJECTED_TEMPLATE_SID)');
+  }
+
+  const variables = {
+    1: clientName,
+    2: reason,
+    3: documentDescription,
+  };
+
+  return sendWhatsAppTemplate(
+    to,
+    getTemplateSid('DOCUMENT_REJECTED', language),
     variables,
     accountantId,
     clientId,
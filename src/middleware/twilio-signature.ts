@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import { validateTwilioSignature, getStatusCallbackUrl } from '../lib/twilio.js';
+
+/**
+ * Build middleware that verifies a webhook request was sent by Twilio
+ *
+ * Twilio signs the full public URL it called plus the POST params, so the URL comes
+ * from config (via `getSignedUrl`) rather than from the (proxied) Host header.
+ * Set TWILIO_SKIP_SIGNATURE_VALIDATION=true to bypass locally (never in production).
+ */
+function twilioSignatureCheck(
+  getSignedUrl: (req: Request) => string | null,
+  missingConfig: string
+) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (process.env.TWILIO_SKIP_SIGNATURE_VALIDATION === 'true' && process.env.NODE_ENV !== 'production') {
+      next();
+      return;
+    }
+
+    const signature = req.header('X-Twilio-Signature');
+    const url = getSignedUrl(req);
+
+    if (!url) {
+      console.error(`❌ [Twilio Signature] ${missingConfig} not configured - cannot verify webhook`);
+      res.status(500).send('Webhook verification not configured');
+      return;
+    }
+
+    if (!signature || !validateTwilioSignature(signature, url, req.body || {})) {
+      console.warn('🚫 [Twilio Signature] Rejected webhook request', {
+        url,
+        ip: req.ip,
+        hasSignature: !!signature,
+        messageSid: req.body?.MessageSid,
+        from: req.body?.From,
+      });
+      res.status(403).send('Invalid signature');
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Verify an inbound message webhook (the URL configured on the number, under API_URL)
+ */
+export const verifyTwilioSignature = twilioSignatureCheck(
+  req => {
+    const apiUrl = process.env.API_URL?.replace(/\/$/, '');
+    return apiUrl ? `${apiUrl}${req.originalUrl}` : null;
+  },
+  'API_URL'
+);
+
+/**
+ * Verify a delivery status callback against the URL it was registered with on each send
+ * (TWILIO_STATUS_CALLBACK_URL, which can differ from API_URL)
+ */
+export const verifyTwilioStatusSignature = twilioSignatureCheck(
+  () => getStatusCallbackUrl(),
+  'TWILIO_STATUS_CALLBACK_URL or API_URL'
+);
@@ -0,0 +1,43 @@
+import express, { Request, Response } from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { requireAdmin } from '../middleware/admin.js';
+import { validateTwilioNumber, assignTwilioNumber } from '../services/inbound-message.js';
+
+const router = express.Router();
+
+/**
+ * PUT /api/admin/practices/:id/twilio-number
+ * Assign a practice its dedicated Twilio number: { twilioPhoneNumber } (null removes it)
+ * Inbound messages to the number are routed to the practice, so it must be unique.
+ */
+router.put('/practices/:id/twilio-number', authenticate, requireAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { twilioPhoneNumber } = req.body;
+
+    let number: string | null = null;
+    if (twilioPhoneNumber !== null && twilioPhoneNumber !== '') {
+      const validation = validateTwilioNumber(twilioPhoneNumber);
+      if ('error' in validation) {
+        res.status(400).json({ error: validation.error });
+        return;
+      }
+      number = validation.number;
+    }
+
+    const result = await assignTwilioNumber(req.params.id, number);
+
+    if ('error' in result) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+
+    console.log(`📞 Twilio number for practice ${req.params.id} set to ${result.twilioPhoneNumber || 'none'}`);
+
+    res.json({ success: true, twilioPhoneNumber: result.twilioPhoneNumber });
+  } catch (error) {
+    console.error('Assign Twilio number error:', error);
+    res.status(500).json({ error: 'Failed to assign Twilio number' });
+  }
+});
+
+export default router;
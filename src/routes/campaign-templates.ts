@@ -0,0 +1,207 @@
+import express, { Request, Response } from 'express';
+import { db } from '../lib/db.js';
+import { authenticate } from '../middleware/auth.js';
+import {
+  validateCampaignTemplate,
+  createCampaignTemplate,
+  updateCampaignTemplate,
+  createCampaignFromTemplate,
+  formatTemplatePeriod,
+  getTemplateTimezone
+} from '../services/campaign-templates.js';
+import { startCampaign } from '../services/campaign-start.js';
+import { AuthenticatedRequest, CampaignTemplate } from '../types/index.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/campaign-templates
+ * List the practice's campaign templates
+ */
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const result = await db.query<CampaignTemplate>(
+      `SELECT * FROM campaign_templates
+       WHERE accountant_id = $1
+       ORDER BY name`,
+      [accountantId]
+    );
+
+    res.json({ templates: result.rows });
+  } catch (error) {
+    console.error('Get campaign templates error:', error);
+    res.status(500).json({ error: 'Failed to fetch campaign templates' });
+  }
+});
+
+/**
+ * GET /api/campaign-templates/:id
+ * A template with the campaigns it has created
+ */
+router.get('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const result = await db.query<CampaignTemplate>(
+      `SELECT * FROM campaign_templates
+       WHERE id = $1 AND accountant_id = $2`,
+      [req.params.id, accountantId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Campaign template not found' });
+      return;
+    }
+
+    const campaigns = await db.query(
+      `SELECT id, name, period, status, created_at
+       FROM campaigns
+       WHERE template_id = $1
+       ORDER BY created_at DESC`,
+      [req.params.id]
+    );
+
+    res.json({ template: result.rows[0], campaigns: campaigns.rows });
+  } catch (error) {
+    console.error('Get campaign template error:', error);
+    res.status(500).json({ error: 'Failed to fetch campaign template' });
+  }
+});
+
+/**
+ * POST /api/campaign-templates
+ * Create a template: campaign settings, clients (client_ids and/or client_tags) and an
+ * optional recurrence (monthly/quarterly with recurrence_day + recurrence_time, or cron)
+ */
+router.post('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const validation = await validateCampaignTemplate(accountantId, req.body);
+    if ('error' in validation) {
+      res.status(400).json({ error: validation.error });
+      return;
+    }
+
+    const template = await createCampaignTemplate(accountantId, validation.template);
+
+    res.json({ success: true, template });
+  } catch (error) {
+    console.error('Create campaign template error:', error);
+    res.status(500).json({ error: 'Failed to create campaign template' });
+  }
+});
+
+/**
+ * PUT /api/campaign-templates/:id
+ * Replace a template's settings (the next run is rescheduled from now)
+ */
+router.put('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const validation = await validateCampaignTemplate(accountantId, req.body);
+    if ('error' in validation) {
+      res.status(400).json({ error: validation.error });
+      return;
+    }
+
+    const template = await updateCampaignTemplate(accountantId, req.params.id, validation.template);
+
+    if (!template) {
+      res.status(404).json({ error: 'Campaign template not found' });
+      return;
+    }
+
+    res.json({ success: true, template });
+  } catch (error) {
+    console.error('Update campaign template error:', error);
+    res.status(500).json({ error: 'Failed to update campaign template' });
+  }
+});
+
+/**
+ * DELETE /api/campaign-templates/:id
+ * Campaigns already created from it are kept
+ */
+router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const result = await db.query(
+      'DELETE FROM campaign_templates WHERE id = $1 AND accountant_id = $2 RETURNING id',
+      [req.params.id, accountantId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Campaign template not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Campaign template deleted' });
+  } catch (error) {
+    console.error('Delete campaign template error:', error);
+    res.status(500).json({ error: 'Failed to delete campaign template' });
+  }
+});
+
+/**
+ * POST /api/campaign-templates/:id/campaigns
+ * Create a campaign from the template now: { period?, start? }
+ * period defaults to the template's period for today (e.g. last month).
+ */
+router.post('/:id/campaigns', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const { period, start = false } = req.body;
+
+    if (period !== undefined && (typeof period !== 'string' || !period.trim())) {
+      res.status(400).json({ error: 'period must be a non-empty string' });
+      return;
+    }
+
+    const result = await db.query<CampaignTemplate>(
+      `SELECT * FROM campaign_templates
+       WHERE id = $1 AND accountant_id = $2`,
+      [req.params.id, accountantId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Campaign template not found' });
+      return;
+    }
+
+    const template = result.rows[0];
+    const timezone = await getTemplateTimezone(accountantId, template);
+    const campaignPeriod = period ? period.trim() : formatTemplatePeriod(template, timezone, new Date());
+
+    const created = await createCampaignFromTemplate(template, campaignPeriod);
+
+    if (!created) {
+      res.status(409).json({ error: `A campaign for ${campaignPeriod} has already been created from this template` });
+      return;
+    }
+
+    if (start !== true) {
+      res.json({ success: true, campaign: created.campaign, clientCount: created.clientCount });
+      return;
+    }
+
+    const outcome = await startCampaign(accountantId, created.campaign.id);
+
+    if ('error' in outcome) {
+      // The draft campaign is kept so it can be fixed up and started by hand
+      res.status(outcome.status).json({ error: outcome.error, ...outcome.details, campaign: created.campaign });
+      return;
+    }
+
+    res.json({ success: true, campaign: created.campaign, clientCount: created.clientCount, results: outcome.results });
+  } catch (error) {
+    console.error('Create campaign from template error:', error);
+    res.status(500).json({ error: 'Failed to create campaign from template' });
+  }
+});
+
+export default router;
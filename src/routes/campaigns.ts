@@ -1,8 +1,33 @@
 import express, { Request, Response } from 'express';
 import { db } from '../lib/db.js';
 import { authenticate } from '../middleware/auth.js';
-import { AuthenticatedRequest, Campaign, Client } from '../types/index.js';
-import { sendDocumentRequest } from '../lib/twilio.js';
+import { AuthenticatedRequest, Campaign } from '../types/index.js';
+import { isValidTimezone, parseSendTime, parseZonedDateTime, DEFAULT_TIMEZONE } from '../lib/timezone.js';
+import {
+  getReminderSteps,
+  setReminderSteps,
+  validateReminderSteps,
+  legacyReminderSteps,
+  mergeLegacyReminderSteps,
+  hasLegacyReminderFields,
+  ReminderStepInput
+} from '../services/reminder-steps.js';
+import { previewReminderSchedule } from '../services/reminder-service.js';
+import { startCampaign, addClientsToCampaign } from '../services/campaign-start.js';
+import { getCampaignStartProgress, resumeFirstMessages } from '../services/campaign-jobs.js';
+import { scheduleCampaignStart, cancelScheduledStart } from '../services/campaign-schedule.js';
+import { listCampaignEscalations } from '../services/escalation.js';
+import { COMPLETE_WHEN_OPTIONS, completeCampaignIfDone } from '../services/campaign-completion.js';
+import {
+  CampaignItemInput,
+  validateCampaignItems,
+  itemsForDocumentType,
+  getCampaignItems,
+  setCampaignItems,
+  setClientItemStatus,
+  refreshClientStatus,
+  isCampaignItemStatus
+} from '../services/campaign-items.js';
 
 const router = express.Router();
 
@@ -18,6 +43,7 @@ router.get('/', authenticate, async (req: Request, res: Response): Promise<void>
         COUNT(cc.id) as total_clients,
         COUNT(cc.id) FILTER (WHERE cc.status = 'pending') as pending,
         COUNT(cc.id) FILTER (WHERE cc.status = 'received') as received,
+        COUNT(cc.id) FILTER (WHERE cc.status = 'awaiting_review') as awaiting_review,
         COUNT(cc.id) FILTER (WHERE cc.status = 'failed') as failed
        FROM campaigns c
        LEFT JOIN campaign_clients cc ON c.id = cc.campaign_id
@@ -57,12 +83,14 @@ router.get('/:id', authenticate, async (req: Request, res: Response): Promise<vo
       total_clients: string;
       pending: string;
       received: string;
+      awaiting_review: string;
       failed: string;
     }>(
       `SELECT
         COUNT(*) as total_clients,
         COUNT(*) FILTER (WHERE status = 'pending') as pending,
         COUNT(*) FILTER (WHERE status = 'received') as received,
+        COUNT(*) FILTER (WHERE status = 'awaiting_review') as awaiting_review,
         COUNT(*) FILTER (WHERE status = 'failed') as failed
        FROM campaign_clients
        WHERE campaign_id = $1`,
@@ -73,15 +101,20 @@ router.get('/:id', authenticate, async (req: Request, res: Response): Promise<vo
       total_clients: '0',
       pending: '0',
       received: '0',
+      awaiting_review: '0',
       failed: '0'
     };
 
+    const reminderSteps = await getReminderSteps(campaignId);
+    const items = await getCampaignItems(campaignId);
+
     res.json({
-      campaign: result.rows[0],
+      campaign: { ...result.rows[0], reminder_steps: reminderSteps, items },
       stats: {
         total_clients: parseInt(stats.total_clients),
         pending: parseInt(stats.pending),
         received: parseInt(stats.received),
+        awaiting_review: parseInt(stats.awaiting_review),
         failed: parseInt(stats.failed)
       }
     });
@@ -91,6 +124,72 @@ router.get('/:id', authenticate, async (req: Request, res: Response): Promise<vo
   }
 });
 
+// Preview the reminder schedule at a simulated time (?at=ISO timestamp, default now) - never sends anything
+router.get('/:id/reminder-preview', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const accountantId = authenticatedReq.accountant.id;
+    const campaignId = req.params.id;
+
+    const at = req.query.at ? new Date(req.query.at as string) : new Date();
+    if (isNaN(at.getTime())) {
+      res.status(400).json({ error: 'at must be an ISO timestamp' });
+      return;
+    }
+
+    const result = await db.query<Campaign>(
+      `SELECT * FROM campaigns
+       WHERE id = $1 AND accountant_id = $2`,
+      [campaignId, accountantId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    const clients = await previewReminderSchedule(campaignId, at);
+
+    res.json({
+      at: at.toISOString(),
+      campaign_id: campaignId,
+      reminder_steps: await getReminderSteps(campaignId),
+      run_now: clients.filter(client => client.steps[0]?.run_now).length,
+      clients
+    });
+  } catch (error) {
+    console.error('Reminder preview error:', error);
+    res.status(500).json({ error: 'Failed to preview reminders' });
+  }
+});
+
+// Escalation history (accountant notified, client texted/emailed, reassigned) for the campaign's clients
+router.get('/:id/escalations', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const accountantId = authenticatedReq.accountant.id;
+    const campaignId = req.params.id;
+
+    const result = await db.query<Campaign>(
+      `SELECT id FROM campaigns
+       WHERE id = $1 AND accountant_id = $2`,
+      [campaignId, accountantId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    const escalations = await listCampaignEscalations(campaignId);
+
+    res.json({ escalations });
+  } catch (error) {
+    console.error('Get escalations error:', error);
+    res.status(500).json({ error: 'Failed to fetch escalations' });
+  }
+});
+
 // Create new campaign
 router.post('/', authenticate, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -99,6 +198,7 @@ router.post('/', authenticate, async (req: Request, res: Response): Promise<void
     const {
       name,
       document_type,
+      items,
       period,
       client_ids,
       reminder_day_3,
@@ -107,8 +207,12 @@ router.post('/', authenticate, async (req: Request, res: Response): Promise<void
       reminder_1_days,
       reminder_2_days,
       reminder_3_days,
+      reminder_steps,
       reminder_send_time,
-      initial_message
+      reminder_timezone,
+      business_days_only,
+      initial_message,
+      complete_when
     } = req.body;
 
     if (!name || !period) {
@@ -116,34 +220,77 @@ router.post('/', authenticate, async (req: Request, res: Response): Promise<void
       return;
     }
 
+    // Either an explicit list of steps, or the legacy reminder 1/2/flag settings
+    let steps: ReminderStepInput[];
+    if (reminder_steps !== undefined) {
+      const validation = validateReminderSteps(reminder_steps);
+      if ('error' in validation) {
+        res.status(400).json({ error: validation.error });
+        return;
+      }
+      steps = validation.steps;
+    } else {
+      steps = legacyReminderSteps({
+        reminder_day_3,
+        reminder_day_6,
+        flag_after_day_9,
+        reminder_1_days,
+        reminder_2_days,
+        reminder_3_days
+      });
+    }
+
+    if (reminder_send_time && !parseSendTime(reminder_send_time)) {
+      res.status(400).json({ error: 'reminder_send_time must be HH:MM' });
+      return;
+    }
+
+    if (reminder_timezone && !isValidTimezone(reminder_timezone)) {
+      res.status(400).json({ error: 'Invalid reminder_timezone' });
+      return;
+    }
+
+    if (complete_when !== undefined && !COMPLETE_WHEN_OPTIONS.includes(complete_when)) {
+      res.status(400).json({ error: `complete_when must be one of ${COMPLETE_WHEN_OPTIONS.join(', ')}` });
+      return;
+    }
+
+    // A checklist of several documents, or just document_type
+    let checklist: CampaignItemInput[] = itemsForDocumentType(document_type || 'bank_statement');
+    if (items !== undefined) {
+      const validation = validateCampaignItems(items);
+      if ('error' in validation) {
+        res.status(400).json({ error: validation.error });
+        return;
+      }
+      checklist = validation.items;
+    }
+
     // Create campaign with custom schedule settings (status defaults to 'draft')
     const campaignResult = await db.query<Campaign>(
       `INSERT INTO campaigns (
         accountant_id, name, document_type, period, status,
-        reminder_day_3, reminder_day_6, flag_after_day_9,
-        reminder_1_days, reminder_2_days, reminder_3_days, reminder_send_time,
-        initial_message
+        reminder_send_time, reminder_timezone, business_days_only, initial_message, complete_when
       )
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
        RETURNING *`,
       [
         accountantId,
         name,
-        document_type || 'bank_statement',
+        checklist[0].document_type, // The first item is the campaign's main document type
         period,
         'draft', // Always create campaigns in draft status
-        reminder_day_3 !== false,
-        reminder_day_6 !== false,
-        flag_after_day_9 !== false,
-        reminder_1_days || 3,
-        reminder_2_days || 6,
-        reminder_3_days || 9,
         reminder_send_time || '10:00',
-        initial_message || null
+        reminder_timezone || null, // NULL = use the accountant's timezone
+        business_days_only === true,
+        initial_message || null,
+        complete_when || 'all_received'
       ]
     );
 
     const campaign = campaignResult.rows[0];
+    const reminderSteps = await setReminderSteps(campaign.id, steps);
+    const campaignItems = await setCampaignItems(campaign.id, checklist);
 
     // Add clients to campaign if provided
     if (client_ids && Array.isArray(client_ids) && client_ids.length > 0) {
@@ -158,53 +305,121 @@ router.post('/', authenticate, async (req: Request, res: Response): Promise<void
       );
     }
 
-    res.json({ success: true, campaign });
+    res.json({ success: true, campaign: { ...campaign, reminder_steps: reminderSteps, items: campaignItems } });
   } catch (error) {
     console.error('Create campaign error:', error);
     res.status(500).json({ error: 'Failed to create campaign' });
   }
 });
 
-// Start campaign - send WhatsApp messages to all clients
-router.post('/:id/start', authenticate, async (req: Request, res: Response): Promise<void> => {
+// Add clients to a campaign: { client_ids }
+// On an active campaign each new client's first message is queued straight away,
+// which starts their reminder schedule once it's sent
+router.post('/:id/clients', authenticate, async (req: Request, res: Response): Promise<void> => {
   try {
     const authenticatedReq = req as AuthenticatedRequest;
     const accountantId = authenticatedReq.accountant.id;
     const campaignId = req.params.id;
+    const { client_ids } = req.body;
 
-    // Check subscription limits (for free plan)
-    const accountant = await db.query(
-      `SELECT subscription_plan, chase_limit, chases_used FROM accountants WHERE id = $1`,
-      [accountantId]
+    if (!Array.isArray(client_ids) || client_ids.length === 0 || client_ids.some(id => typeof id !== 'string')) {
+      res.status(400).json({ error: 'client_ids must be a non-empty array of client IDs' });
+      return;
+    }
+
+    const campaignResult = await db.query<Campaign>(
+      `SELECT * FROM campaigns WHERE id = $1 AND accountant_id = $2`,
+      [campaignId, accountantId]
     );
 
-    if (!accountant.rows[0]) {
-      res.status(404).json({ error: 'Accountant not found' });
+    if (campaignResult.rows.length === 0) {
+      res.status(404).json({ error: 'Campaign not found' });
       return;
     }
 
-    const acc = accountant.rows[0];
+    const campaign = campaignResult.rows[0];
+    const requestedIds = [...new Set<string>(client_ids)];
 
-    // Enforce chase limit for free plan
-    if (acc.subscription_plan === 'free') {
-      const chaseLimit = acc.chase_limit || 3;
-      const chasesUsed = acc.chases_used || 0;
+    // Only the accountant's own clients
+    const clientsResult = await db.query<{ id: string }>(
+      `SELECT id FROM clients WHERE accountant_id = $1 AND id = ANY($2::uuid[])`,
+      [accountantId, requestedIds]
+    );
 
-      if (chasesUsed >= chaseLimit) {
-        res.status(403).json({
-          error: 'Chase limit reached on free plan',
-          upgrade: true,
-          chasesUsed,
-          limit: chaseLimit
-        });
-        return;
-      }
+    if (clientsResult.rows.length !== requestedIds.length) {
+      res.status(404).json({ error: 'One or more clients not found' });
+      return;
+    }
+
+    // No plan check here: client_limit caps the accountant's client list, which is enforced
+    // when clients are created, and a campaign only ever holds clients from that list
+    const outcome = await addClientsToCampaign(campaign, requestedIds);
+
+    if ('error' in outcome) {
+      res.status(outcome.status).json({ error: outcome.error });
+      return;
+    }
+
+    const { added, queued } = outcome;
+    console.log(`➕ Added ${added} clients to campaign "${campaign.name}"${queued > 0 ? ` (${queued} first messages queued)` : ''}`);
+
+    res.json({
+      success: true,
+      added,
+      alreadyInCampaign: requestedIds.length - added,
+      queued
+    });
+  } catch (error) {
+    console.error('Add campaign clients error:', error);
+    res.status(500).json({ error: 'Failed to add clients to campaign' });
+  }
+});
+
+// Withdraw a client from a campaign
+// Their queued first message and remaining reminders are dropped
+router.delete('/:id/clients/:clientId', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const accountantId = authenticatedReq.accountant.id;
+    const campaignId = req.params.id;
+
+    const result = await db.query<{ id: string; campaign_status: string }>(
+      `DELETE FROM campaign_clients cc
+       USING campaigns camp
+       WHERE cc.campaign_id = camp.id
+         AND camp.id = $1
+         AND camp.accountant_id = $2
+         AND cc.client_id = $3
+       RETURNING cc.id, camp.status as campaign_status`,
+      [campaignId, accountantId, req.params.clientId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Client not found in campaign' });
+      return;
     }
 
-    // Get campaign details
+    // The clients left may all be done now
+    const completed = result.rows[0].campaign_status === 'active'
+      ? await completeCampaignIfDone(campaignId)
+      : null;
+
+    res.json({ success: true, message: 'Client removed from campaign', campaignCompleted: completed !== null });
+  } catch (error) {
+    console.error('Remove campaign client error:', error);
+    res.status(500).json({ error: 'Failed to remove client from campaign' });
+  }
+});
+
+// Each client's progress through the campaign's checklist
+router.get('/:id/checklist', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const accountantId = authenticatedReq.accountant.id;
+    const campaignId = req.params.id;
+
     const campaignResult = await db.query<Campaign>(
-      `SELECT * FROM campaigns
-       WHERE id = $1 AND accountant_id = $2`,
+      `SELECT id FROM campaigns WHERE id = $1 AND accountant_id = $2`,
       [campaignId, accountantId]
     );
 
@@ -213,127 +428,240 @@ router.post('/:id/start', authenticate, async (req: Request, res: Response): Pro
       return;
     }
 
-    const campaign = campaignResult.rows[0];
+    const items = await getCampaignItems(campaignId);
 
-    if (campaign.status !== 'draft') {
-      res.status(400).json({ error: 'Campaign has already been started' });
+    const statusResult = await db.query<{
+      campaign_client_id: string;
+      client_id: string;
+      client_name: string;
+      status: string;
+      campaign_item_id: string;
+      item_status: string;
+      received_at: Date | null;
+    }>(
+      `SELECT cc.id as campaign_client_id, c.id as client_id, c.name as client_name, cc.status,
+              ci.id as campaign_item_id, COALESCE(cci.status, 'pending') as item_status, cci.received_at
+       FROM campaign_clients cc
+       JOIN clients c ON cc.client_id = c.id
+       JOIN campaign_items ci ON ci.campaign_id = cc.campaign_id
+       LEFT JOIN campaign_client_items cci ON cci.campaign_item_id = ci.id AND cci.campaign_client_id = cc.id
+       WHERE cc.campaign_id = $1
+       ORDER BY c.name, ci.item_order`,
+      [campaignId]
+    );
+
+    const clients = new Map<string, {
+      client_id: string;
+      client_name: string;
+      status: string;
+      items: Array<{ campaign_item_id: string; status: string; received_at: Date | null }>;
+    }>();
+
+    for (const row of statusResult.rows) {
+      if (!clients.has(row.campaign_client_id)) {
+        clients.set(row.campaign_client_id, {
+          client_id: row.client_id,
+          client_name: row.client_name,
+          status: row.status,
+          items: [],
+        });
+      }
+      clients.get(row.campaign_client_id)!.items.push({
+        campaign_item_id: row.campaign_item_id,
+        status: row.item_status,
+        received_at: row.received_at,
+      });
+    }
+
+    res.json({ items, clients: [...clients.values()] });
+  } catch (error) {
+    console.error('Get campaign checklist error:', error);
+    res.status(500).json({ error: 'Failed to fetch campaign checklist' });
+  }
+});
+
+// Set a client's status for one checklist item by hand: { status }
+// e.g. marking a P60 received that came in by post
+router.patch('/:id/clients/:clientId/items/:itemId', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const accountantId = authenticatedReq.accountant.id;
+    const campaignId = req.params.id;
+    const { status } = req.body;
+
+    if (!isCampaignItemStatus(status)) {
+      res.status(400).json({ error: 'status must be pending, awaiting_review or received' });
       return;
     }
 
-    // Get accountant details for practice name and assistant name
-    const accountantResult = await db.query<{ practice_name: string; amy_name: string }>(
-      `SELECT practice_name, amy_name FROM accountants WHERE id = $1`,
-      [accountantId]
+    const targetResult = await db.query<{ campaign_client_id: string; campaign_item_id: string; campaign_status: string }>(
+      `SELECT cc.id as campaign_client_id, ci.id as campaign_item_id, camp.status as campaign_status
+       FROM campaigns camp
+       JOIN campaign_clients cc ON cc.campaign_id = camp.id
+       JOIN campaign_items ci ON ci.campaign_id = camp.id
+       WHERE camp.id = $1 AND camp.accountant_id = $2 AND cc.client_id = $3 AND ci.id = $4`,
+      [campaignId, accountantId, req.params.clientId, req.params.itemId]
     );
-    const practiceName = accountantResult.rows[0]?.practice_name || 'your accountant';
-    const assistantName = accountantResult.rows[0]?.amy_name || 'Amy';
-
-    // Get all clients in the campaign
-    const clientsResult = await db.query<Client & { campaign_client_id: string }>(
-      `SELECT c.*, cc.id as campaign_client_id
-       FROM clients c
-       JOIN campaign_clients cc ON c.id = cc.client_id
-       WHERE cc.campaign_id = $1`,
-      [campaignId]
+
+    if (targetResult.rows.length === 0) {
+      res.status(404).json({ error: 'Client or item not found in campaign' });
+      return;
+    }
+
+    const target = targetResult.rows[0];
+
+    await setClientItemStatus(target.campaign_client_id, target.campaign_item_id, status);
+    const clientStatus = await refreshClientStatus(target.campaign_client_id);
+
+    const completed = target.campaign_status === 'active' ? await completeCampaignIfDone(campaignId) : null;
+
+    res.json({ success: true, clientStatus, campaignCompleted: completed !== null });
+  } catch (error) {
+    console.error('Update checklist item error:', error);
+    res.status(500).json({ error: 'Failed to update checklist item' });
+  }
+});
+
+// Start campaign - queue WhatsApp messages to all clients (sent at the configured rate)
+router.post('/:id/start', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const accountantId = authenticatedReq.accountant.id;
+    const campaignId = req.params.id;
+
+    const outcome = await startCampaign(accountantId, campaignId);
+
+    if ('error' in outcome) {
+      res.status(outcome.status).json({ error: outcome.error, ...outcome.details });
+      return;
+    }
+
+    res.json({ success: true, results: outcome.results });
+  } catch (error) {
+    console.error('Start campaign error:', error);
+    res.status(500).json({ error: 'Failed to start campaign' });
+  }
+});
+
+// Progress of a started campaign's first messages
+router.get('/:id/start-progress', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const accountantId = authenticatedReq.accountant.id;
+    const campaignId = req.params.id;
+
+    const campaignResult = await db.query<Campaign>(
+      `SELECT id, status FROM campaigns WHERE id = $1 AND accountant_id = $2`,
+      [campaignId, accountantId]
     );
 
-    if (clientsResult.rows.length === 0) {
-      res.status(400).json({ error: 'No clients in campaign' });
+    if (campaignResult.rows.length === 0) {
+      res.status(404).json({ error: 'Campaign not found' });
       return;
     }
 
-    const results = {
-      success: 0,
-      failed: 0,
-      errors: [] as Array<{ clientName: string; error: string }>,
-    };
+    const progress = await getCampaignStartProgress(campaignId);
 
-    console.log(`\n🚀 Starting campaign "${campaign.name}" (ID: ${campaignId})`);
-    console.log(`📊 Sending messages to ${clientsResult.rows.length} clients...\n`);
-
-    // Send messages to all clients
-    for (const client of clientsResult.rows) {
-      try {
-        console.log(`📤 Preparing message for ${client.name}...`);
-
-        // Create document description (e.g., "January 2026 bank statement")
-        const documentDescription = `${campaign.period} ${campaign.document_type.replace('_', ' ')}`;
-
-        console.log(`📱 Sending WhatsApp to ${client.phone} using approved template...`);
-
-        // Send WhatsApp message using approved Twilio template
-        await sendDocumentRequest(
-          client.phone,
-          client.name,
-          practiceName,
-          documentDescription,
-          accountantId,
-          client.id,
-          campaignId
-        );
-
-        // Update campaign_clients to mark first message sent
-        const timestamp = new Date();
-        await db.query(
-          `UPDATE campaign_clients
-           SET first_message_sent_at = $1, status = 'pending'
-           WHERE id = $2`,
-          [timestamp, client.campaign_client_id]
-        );
-
-        results.success++;
-        console.log(`✅ [${timestamp.toISOString()}] First message sent to ${client.name} (${client.phone})`);
-        console.log(`   Status: pending | Reminder schedule: ${campaign.reminder_1_days || 3}, ${campaign.reminder_2_days || 6}, ${campaign.reminder_3_days || 9} days\n`);
-      } catch (error) {
-        results.failed++;
-        results.errors.push({
-          clientName: client.name,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-        console.error(`❌ [${new Date().toISOString()}] Failed to send to ${client.name}:`, error);
-        console.error(`   Phone: ${client.phone}\n`);
-      }
+    res.json({ status: campaignResult.rows[0].status, progress });
+  } catch (error) {
+    console.error('Get campaign start progress error:', error);
+    res.status(500).json({ error: 'Failed to fetch start progress' });
+  }
+});
+
+// Resume an interrupted or partly failed start
+// Re-queues clients whose first message hasn't been sent and isn't already queued
+router.post('/:id/start/resume', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const accountantId = authenticatedReq.accountant.id;
+    const campaignId = req.params.id;
+
+    const campaignResult = await db.query<Campaign>(
+      `SELECT id, status FROM campaigns WHERE id = $1 AND accountant_id = $2`,
+      [campaignId, accountantId]
+    );
+
+    if (campaignResult.rows.length === 0) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
     }
 
-    // Update campaign status to active
-    await db.query(
-      `UPDATE campaigns
-       SET status = 'active'
-       WHERE id = $1`,
-      [campaignId]
+    if (campaignResult.rows[0].status !== 'active') {
+      res.status(400).json({ error: 'Only active campaigns can be resumed' });
+      return;
+    }
+
+    const queued = await resumeFirstMessages(campaignId);
+    const progress = await getCampaignStartProgress(campaignId);
+
+    res.json({ success: true, queued, progress });
+  } catch (error) {
+    console.error('Resume campaign start error:', error);
+    res.status(500).json({ error: 'Failed to resume campaign start' });
+  }
+});
+
+// Schedule (or reschedule) a draft campaign to start later
+// scheduled_start_at is ISO with an offset, or local "YYYY-MM-DDTHH:MM" in the campaign's timezone
+router.put('/:id/schedule', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const accountantId = authenticatedReq.accountant.id;
+    const campaignId = req.params.id;
+
+    const campaignResult = await db.query<{ timezone: string | null }>(
+      `SELECT COALESCE(camp.reminder_timezone, acc.timezone) as timezone
+       FROM campaigns camp
+       JOIN accountants acc ON camp.accountant_id = acc.id
+       WHERE camp.id = $1 AND camp.accountant_id = $2`,
+      [campaignId, accountantId]
     );
 
-    // Increment chase counter for free plan users
-    if (acc.subscription_plan === 'free') {
-      await db.query(
-        'UPDATE accountants SET chases_used = chases_used + 1 WHERE id = $1',
-        [accountantId]
-      );
-      console.log(`📊 Free plan chase counter incremented: ${acc.chases_used + 1}/${acc.chase_limit || 3}`);
+    if (campaignResult.rows.length === 0) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
     }
 
-    console.log(`\n📈 Campaign Start Summary:`);
-    console.log(`   Campaign: ${campaign.name}`);
-    console.log(`   Total Clients: ${clientsResult.rows.length}`);
-    console.log(`   ✅ Successfully Sent: ${results.success}`);
-    console.log(`   ❌ Failed: ${results.failed}`);
-    console.log(`   Campaign Status: active`);
-    console.log(`   Next Check: Reminders will be sent based on custom schedule`);
-    console.log(`   Reminder Days: ${campaign.reminder_1_days || 3}, ${campaign.reminder_2_days || 6}, ${campaign.reminder_3_days || 9}`);
-    console.log(`   Send Time: ${campaign.reminder_send_time || '10:00'}\n`);
+    const timezone = campaignResult.rows[0].timezone || DEFAULT_TIMEZONE;
+    const startAt = parseZonedDateTime(req.body.scheduled_start_at, timezone);
 
-    res.json({
-      success: true,
-      results: {
-        total: clientsResult.rows.length,
-        success: results.success,
-        failed: results.failed,
-        errors: results.errors,
-      },
-    });
+    if (!startAt) {
+      res.status(400).json({ error: 'scheduled_start_at must be a date and time, e.g. "2026-02-01T09:00"' });
+      return;
+    }
+
+    const outcome = await scheduleCampaignStart(accountantId, campaignId, startAt);
+
+    if ('error' in outcome) {
+      res.status(outcome.status).json({ error: outcome.error, ...outcome.details });
+      return;
+    }
+
+    res.json({ success: true, campaign: outcome.campaign, timezone });
   } catch (error) {
-    console.error('Start campaign error:', error);
-    res.status(500).json({ error: 'Failed to start campaign' });
+    console.error('Schedule campaign error:', error);
+    res.status(500).json({ error: 'Failed to schedule campaign' });
+  }
+});
+
+// Cancel a draft campaign's scheduled start
+router.delete('/:id/schedule', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const accountantId = authenticatedReq.accountant.id;
+
+    const campaign = await cancelScheduledStart(accountantId, req.params.id);
+
+    if (!campaign) {
+      res.status(404).json({ error: 'No scheduled start found for this campaign' });
+      return;
+    }
+
+    res.json({ success: true, campaign });
+  } catch (error) {
+    console.error('Cancel scheduled campaign error:', error);
+    res.status(500).json({ error: 'Failed to cancel scheduled start' });
   }
 });
 
@@ -346,21 +674,61 @@ router.patch('/:id', authenticate, async (req: Request, res: Response): Promise<
     const {
       name,
       period,
-      reminder_1_days,
-      reminder_2_days,
-      reminder_3_days,
+      reminder_steps,
       reminder_send_time,
+      reminder_timezone,
+      business_days_only,
       initial_message,
-      reminder_day_3,
-      reminder_day_6,
-      flag_after_day_9
+      complete_when,
+      items
     } = req.body;
 
+    let steps: ReminderStepInput[] | null = null;
+    if (reminder_steps !== undefined) {
+      const validation = validateReminderSteps(reminder_steps);
+      if ('error' in validation) {
+        res.status(400).json({ error: validation.error });
+        return;
+      }
+      steps = validation.steps;
+    }
+
+    // The checklist can only change before any client has been asked for it
+    let checklist: CampaignItemInput[] | null = null;
+    if (items !== undefined) {
+      const validation = validateCampaignItems(items);
+      if ('error' in validation) {
+        res.status(400).json({ error: validation.error });
+        return;
+      }
+      checklist = validation.items;
+
+      const statusResult = await db.query<Campaign>(
+        `SELECT status FROM campaigns WHERE id = $1 AND accountant_id = $2`,
+        [campaignId, accountantId]
+      );
+
+      if (statusResult.rows.length === 0) {
+        res.status(404).json({ error: 'Campaign not found' });
+        return;
+      }
+
+      if (statusResult.rows[0].status !== 'draft') {
+        res.status(400).json({ error: 'Items can only be changed before the campaign starts' });
+        return;
+      }
+    }
+
     // Build dynamic update query based on provided fields
     const updates: string[] = [];
     const values: any[] = [];
     let paramIndex = 1;
 
+    if (checklist) {
+      updates.push(`document_type = $${paramIndex++}`);
+      values.push(checklist[0].document_type);
+    }
+
     if (name !== undefined) {
       updates.push(`name = $${paramIndex++}`);
       values.push(name);
@@ -369,40 +737,42 @@ router.patch('/:id', authenticate, async (req: Request, res: Response): Promise<
       updates.push(`period = $${paramIndex++}`);
       values.push(period);
     }
-    if (reminder_1_days !== undefined) {
-      updates.push(`reminder_1_days = $${paramIndex++}`);
-      values.push(reminder_1_days);
-    }
-    if (reminder_2_days !== undefined) {
-      updates.push(`reminder_2_days = $${paramIndex++}`);
-      values.push(reminder_2_days);
-    }
-    if (reminder_3_days !== undefined) {
-      updates.push(`reminder_3_days = $${paramIndex++}`);
-      values.push(reminder_3_days);
-    }
     if (reminder_send_time !== undefined) {
+      if (!parseSendTime(reminder_send_time)) {
+        res.status(400).json({ error: 'reminder_send_time must be HH:MM' });
+        return;
+      }
       updates.push(`reminder_send_time = $${paramIndex++}`);
       values.push(reminder_send_time);
     }
+    if (reminder_timezone !== undefined) {
+      if (reminder_timezone !== null && !isValidTimezone(reminder_timezone)) {
+        res.status(400).json({ error: 'Invalid reminder_timezone' });
+        return;
+      }
+      updates.push(`reminder_timezone = $${paramIndex++}`);
+      values.push(reminder_timezone);
+    }
+    if (business_days_only !== undefined) {
+      updates.push(`business_days_only = $${paramIndex++}`);
+      values.push(business_days_only === true);
+    }
     if (initial_message !== undefined) {
       updates.push(`initial_message = $${paramIndex++}`);
       values.push(initial_message);
     }
-    if (reminder_day_3 !== undefined) {
-      updates.push(`reminder_day_3 = $${paramIndex++}`);
-      values.push(reminder_day_3);
-    }
-    if (reminder_day_6 !== undefined) {
-      updates.push(`reminder_day_6 = $${paramIndex++}`);
-      values.push(reminder_day_6);
-    }
-    if (flag_after_day_9 !== undefined) {
-      updates.push(`flag_after_day_9 = $${paramIndex++}`);
-      values.push(flag_after_day_9);
+    if (complete_when !== undefined) {
+      if (!COMPLETE_WHEN_OPTIONS.includes(complete_when)) {
+        res.status(400).json({ error: `complete_when must be one of ${COMPLETE_WHEN_OPTIONS.join(', ')}` });
+        return;
+      }
+      updates.push(`complete_when = $${paramIndex++}`);
+      values.push(complete_when);
     }
 
-    if (updates.length === 0) {
+    const updatesSchedule = steps !== null || hasLegacyReminderFields(req.body);
+
+    if (updates.length === 0 && !updatesSchedule && !checklist) {
       res.status(400).json({ error: 'No fields to update' });
       return;
     }
@@ -410,11 +780,14 @@ router.patch('/:id', authenticate, async (req: Request, res: Response): Promise<
     // Add campaignId and accountantId to values
     values.push(campaignId, accountantId);
 
+    // With only a schedule change, this still checks ownership and returns the row
     const result = await db.query<Campaign>(
-      `UPDATE campaigns
-       SET ${updates.join(', ')}
-       WHERE id = $${paramIndex++} AND accountant_id = $${paramIndex++}
-       RETURNING *`,
+      updates.length > 0
+        ? `UPDATE campaigns
+           SET ${updates.join(', ')}
+           WHERE id = $${paramIndex++} AND accountant_id = $${paramIndex++}
+           RETURNING *`
+        : `SELECT * FROM campaigns WHERE id = $${paramIndex++} AND accountant_id = $${paramIndex++}`,
       values
     );
 
@@ -423,7 +796,25 @@ router.patch('/:id', authenticate, async (req: Request, res: Response): Promise<
       return;
     }
 
-    res.json({ success: true, campaign: result.rows[0] });
+    let reminderSteps = await getReminderSteps(campaignId);
+    if (updatesSchedule) {
+      reminderSteps = await setReminderSteps(
+        campaignId,
+        steps ?? mergeLegacyReminderSteps(reminderSteps, req.body)
+      );
+    }
+
+    const campaignItems = checklist
+      ? await setCampaignItems(campaignId, checklist)
+      : await getCampaignItems(campaignId);
+
+    // Switching to all_resolved can finish a campaign whose open clients have all failed
+    const completed = complete_when !== undefined ? await completeCampaignIfDone(campaignId) : null;
+
+    res.json({
+      success: true,
+      campaign: { ...(completed || result.rows[0]), reminder_steps: reminderSteps, items: campaignItems }
+    });
   } catch (error) {
     console.error('Update campaign error:', error);
     res.status(500).json({ error: 'Failed to update campaign' });
@@ -2,20 +2,24 @@ import express, { Request, Response } from 'express';
 import { db } from '../lib/db.js';
 import { authenticate } from '../middleware/auth.js';
 import { AuthenticatedRequest, Client } from '../types/index.js';
+import { CONTACT_PREFERENCE_FIELDS, validateContactPreferences } from '../services/contact-preferences.js';
+import { normalizeTags } from '../services/campaign-templates.js';
 
 const router = express.Router();
 
-// Get all clients for the authenticated accountant
+// Get all clients for the authenticated accountant (?tag= filters to clients with that tag)
 router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
   try {
     const authenticatedReq = req as AuthenticatedRequest;
     const accountantId = authenticatedReq.accountant.id;
+    const tag = typeof req.query.tag === 'string' ? req.query.tag.trim().toLowerCase() : null;
 
     const result = await db.query<Client>(
       `SELECT * FROM clients
        WHERE accountant_id = $1
+         AND ($2::text IS NULL OR $2 = ANY(tags))
        ORDER BY created_at DESC`,
-      [accountantId]
+      [accountantId, tag || null]
     );
 
     res.json({ clients: result.rows });
@@ -62,6 +66,19 @@ router.post('/', authenticate, async (req: Request, res: Response): Promise<void
       return;
     }
 
+    const validation = validateContactPreferences(req.body);
+    if ('error' in validation) {
+      res.status(400).json({ error: validation.error });
+      return;
+    }
+    const { prefs } = validation;
+
+    const tags = normalizeTags(req.body.tags ?? []);
+    if (!tags) {
+      res.status(400).json({ error: 'tags must be an array of strings' });
+      return;
+    }
+
     // Check subscription limits
     const accountant = await db.query(
       `SELECT client_limit, subscription_status FROM accountants WHERE id = $1`,
@@ -105,10 +122,24 @@ router.post('/', authenticate, async (req: Request, res: Response): Promise<void
     }
 
     const result = await db.query<Client>(
-      `INSERT INTO clients (accountant_id, name, phone, email)
-       VALUES ($1, $2, $3, $4)
+      `INSERT INTO clients (
+        accountant_id, name, phone, email,
+        preferred_contact_time, quiet_hours_start, quiet_hours_end, preferred_language, do_not_contact_until, tags
+      )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
        RETURNING *`,
-      [accountantId, name, phone, email || null]
+      [
+        accountantId,
+        name,
+        phone,
+        email || null,
+        prefs.preferred_contact_time ?? null,
+        prefs.quiet_hours_start ?? null,
+        prefs.quiet_hours_end ?? null,
+        prefs.preferred_language ?? null,
+        prefs.do_not_contact_until ?? null,
+        tags
+      ]
     );
 
     res.json({ success: true, client: result.rows[0] });
@@ -126,16 +157,23 @@ router.put('/:id', authenticate, async (req: Request, res: Response): Promise<vo
     const clientId = req.params.id;
     const { name, phone, email, status } = req.body;
 
+    const tags = req.body.tags === undefined ? null : normalizeTags(req.body.tags);
+    if (req.body.tags !== undefined && !tags) {
+      res.status(400).json({ error: 'tags must be an array of strings' });
+      return;
+    }
+
     const result = await db.query<Client>(
       `UPDATE clients
        SET name = COALESCE($1, name),
            phone = COALESCE($2, phone),
            email = COALESCE($3, email),
            status = COALESCE($4, status),
+           tags = COALESCE($5, tags),
            updated_at = NOW()
-       WHERE id = $5 AND accountant_id = $6
+       WHERE id = $6 AND accountant_id = $7
        RETURNING *`,
-      [name, phone, email, status, clientId, accountantId]
+      [name, phone, email, status, tags, clientId, accountantId]
     );
 
     if (result.rows.length === 0) {
@@ -150,6 +188,49 @@ router.put('/:id', authenticate, async (req: Request, res: Response): Promise<vo
   }
 });
 
+// Update a client's contact preferences (quiet hours, preferred time, language, do-not-contact date)
+// Only fields in the body change; null clears a preference
+router.patch('/:id/preferences', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const accountantId = authenticatedReq.accountant.id;
+    const clientId = req.params.id;
+
+    const validation = validateContactPreferences(req.body);
+    if ('error' in validation) {
+      res.status(400).json({ error: validation.error });
+      return;
+    }
+
+    const fields = CONTACT_PREFERENCE_FIELDS.filter(field => validation.prefs[field] !== undefined);
+    if (fields.length === 0) {
+      res.status(400).json({ error: `Provide at least one of ${CONTACT_PREFERENCE_FIELDS.join(', ')}` });
+      return;
+    }
+
+    const assignments = fields.map((field, index) => `${field} = $${index + 3}`);
+    const result = await db.query<Client>(
+      `UPDATE clients
+       SET ${assignments.join(', ')}, updated_at = NOW()
+       WHERE id = $1 AND accountant_id = $2
+       RETURNING *`,
+      [clientId, accountantId, ...fields.map(field => validation.prefs[field])]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    console.log(`🔕 Contact preferences updated for ${result.rows[0].name}: ${fields.join(', ')}`);
+
+    res.json({ success: true, client: result.rows[0] });
+  } catch (error) {
+    console.error('Update client preferences error:', error);
+    res.status(500).json({ error: 'Failed to update client preferences' });
+  }
+});
+
 // Delete client
 router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
   try {
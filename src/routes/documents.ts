@@ -0,0 +1,474 @@
+import express, { Request, Response } from 'express';
+import { db } from '../lib/db.js';
+import { authenticate } from '../middleware/auth.js';
+import { markDocumentsReceived } from '../services/inbound-message.js';
+import { reprocessDocument } from '../services/document-jobs.js';
+import { downloadTwilioMedia } from '../lib/google-drive.js';
+import { getReviewableDocument, resolveAcceptItem, acceptDocument, rejectDocument } from '../services/document-review.js';
+import { AuthenticatedRequest, Campaign, Client, Document } from '../types/index.js';
+
+const router = express.Router();
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+type DocumentWithNames = Document & {
+  client_name: string;
+  campaign_name: string | null;
+};
+
+/**
+ * GET /api/documents/unassigned
+ * Documents that matched several active campaigns and need the accountant to pick one
+ */
+router.get('/unassigned', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const result = await db.query<Document & { client_name: string; candidate_campaigns: Array<{ id: string; name: string; document_type: string; period: string }> }>(
+      `SELECT d.*, c.name as client_name,
+              COALESCE(
+                (SELECT json_agg(json_build_object(
+                          'id', camp.id,
+                          'name', camp.name,
+                          'document_type', camp.document_type,
+                          'period', camp.period
+                        ) ORDER BY camp.created_at DESC)
+                 FROM campaigns camp
+                 JOIN campaign_clients cc ON cc.campaign_id = camp.id
+                 WHERE cc.client_id = d.client_id AND camp.status = 'active'),
+                '[]'
+              ) as candidate_campaigns
+       FROM documents d
+       JOIN clients c ON d.client_id = c.id
+       WHERE d.accountant_id = $1
+         AND d.conversion_status = 'unassigned'
+       ORDER BY d.created_at DESC`,
+      [accountantId]
+    );
+
+    res.json({ documents: result.rows });
+  } catch (error) {
+    console.error('Get unassigned documents error:', error);
+    res.status(500).json({ error: 'Failed to fetch unassigned documents' });
+  }
+});
+
+/**
+ * POST /api/documents/:id/assign
+ * File an unassigned document against one of the client's campaigns
+ */
+router.post('/:id/assign', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const documentId = req.params.id;
+    const { campaign_id } = req.body;
+
+    if (!campaign_id) {
+      res.status(400).json({ error: 'campaign_id is required' });
+      return;
+    }
+
+    const documentResult = await db.query<Document>(
+      `SELECT * FROM documents
+       WHERE id = $1 AND accountant_id = $2 AND conversion_status = 'unassigned'`,
+      [documentId, accountantId]
+    );
+
+    if (documentResult.rows.length === 0) {
+      res.status(404).json({ error: 'Unassigned document not found' });
+      return;
+    }
+
+    const document = documentResult.rows[0];
+
+    // The client must be part of the chosen campaign
+    const campaignResult = await db.query<Campaign>(
+      `SELECT camp.*
+       FROM campaigns camp
+       JOIN campaign_clients cc ON cc.campaign_id = camp.id
+       WHERE camp.id = $1 AND camp.accountant_id = $2 AND cc.client_id = $3`,
+      [campaign_id, accountantId, document.client_id]
+    );
+
+    if (campaignResult.rows.length === 0) {
+      res.status(400).json({ error: 'Client is not part of this campaign' });
+      return;
+    }
+
+    const campaign = campaignResult.rows[0];
+
+    const clientResult = await db.query<Client>(
+      `SELECT * FROM clients WHERE id = $1`,
+      [document.client_id]
+    );
+    const client = clientResult.rows[0];
+
+    const updated = await db.query<Document>(
+      `UPDATE documents
+       SET campaign_id = $1, conversion_status = 'pending_upload'
+       WHERE id = $2 AND conversion_status = 'unassigned'
+       RETURNING *`,
+      [campaign.id, document.id]
+    );
+
+    if (updated.rows.length === 0) {
+      res.status(409).json({ error: 'Document has already been assigned' });
+      return;
+    }
+
+    // Attach the original message to the campaign too so the conversation history lines up
+    if (document.twilio_message_sid) {
+      await db.query(
+        `UPDATE messages SET campaign_id = $1 WHERE twilio_sid = $2 AND campaign_id IS NULL`,
+        [campaign.id, document.twilio_message_sid]
+      );
+    }
+
+    await markDocumentsReceived(client, campaign, updated.rows);
+
+    res.json({ success: true, document: updated.rows[0] });
+  } catch (error) {
+    console.error('Assign document error:', error);
+    res.status(500).json({ error: 'Failed to assign document' });
+  }
+});
+
+/**
+ * POST /api/documents/reprocess-failed
+ * Retry every failed document in a campaign ({ campaign_id })
+ */
+router.post('/reprocess-failed', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const { campaign_id } = req.body;
+
+    if (!campaign_id) {
+      res.status(400).json({ error: 'campaign_id is required' });
+      return;
+    }
+
+    const campaignResult = await db.query(
+      `SELECT id FROM campaigns WHERE id = $1 AND accountant_id = $2`,
+      [campaign_id, accountantId]
+    );
+
+    if (campaignResult.rows.length === 0) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    const failedResult = await db.query<Document>(
+      `SELECT * FROM documents
+       WHERE campaign_id = $1
+         AND accountant_id = $2
+         AND conversion_status IN ('upload_failed', 'conversion_failed')`,
+      [campaign_id, accountantId]
+    );
+
+    const results = { upload: 0, convert: 0, skipped: 0 };
+
+    for (const document of failedResult.rows) {
+      const step = await reprocessDocument(document);
+      if (step) {
+        results[step]++;
+      } else {
+        results.skipped++;
+      }
+    }
+
+    console.log(`🔁 Reprocessing ${failedResult.rows.length} failed document(s) in campaign ${campaign_id}:`, results);
+
+    res.json({
+      success: true,
+      total: failedResult.rows.length,
+      results
+    });
+  } catch (error) {
+    console.error('Bulk reprocess documents error:', error);
+    res.status(500).json({ error: 'Failed to reprocess documents' });
+  }
+});
+
+/**
+ * POST /api/documents/:id/reprocess
+ * Re-run the Drive upload and/or CSV conversion for a failed document
+ */
+router.post('/:id/reprocess', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const documentResult = await db.query<Document>(
+      `SELECT * FROM documents WHERE id = $1 AND accountant_id = $2`,
+      [req.params.id, accountantId]
+    );
+
+    if (documentResult.rows.length === 0) {
+      res.status(404).json({ error: 'Document not found' });
+      return;
+    }
+
+    const document = documentResult.rows[0];
+
+    if (document.conversion_status === 'unassigned') {
+      res.status(400).json({ error: 'Assign the document to a campaign first' });
+      return;
+    }
+
+    const step = await reprocessDocument(document);
+
+    if (!step) {
+      res.status(400).json({ error: 'Document has nothing to reprocess' });
+      return;
+    }
+
+    res.json({ success: true, step });
+  } catch (error) {
+    console.error('Reprocess document error:', error);
+    res.status(500).json({ error: 'Failed to reprocess document' });
+  }
+});
+
+/**
+ * GET /api/documents
+ * List collected documents
+ * Query: client_id, campaign_id, status, review_status, from, to (ISO dates), mime_type (e.g. "application/pdf" or "image/"), page, limit
+ */
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const { client_id, campaign_id, status, review_status, from, to, mime_type } = req.query as Record<string, string | undefined>;
+
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const fromDate = from ? new Date(from) : null;
+    if (fromDate && isNaN(fromDate.getTime())) {
+      res.status(400).json({ error: 'from must be an ISO date' });
+      return;
+    }
+
+    const toDate = to ? new Date(to) : null;
+    if (toDate && isNaN(toDate.getTime())) {
+      res.status(400).json({ error: 'to must be an ISO date' });
+      return;
+    }
+
+    // Build dynamic filter based on provided query params
+    const conditions: string[] = ['d.accountant_id = $1'];
+    const values: any[] = [accountantId];
+    let paramIndex = 2;
+
+    if (client_id) {
+      conditions.push(`d.client_id = $${paramIndex++}`);
+      values.push(client_id);
+    }
+    if (campaign_id) {
+      conditions.push(`d.campaign_id = $${paramIndex++}`);
+      values.push(campaign_id);
+    }
+    if (status) {
+      conditions.push(`d.conversion_status = ANY($${paramIndex++})`);
+      values.push(status.split(','));
+    }
+    if (review_status) {
+      conditions.push(`d.review_status = $${paramIndex++}`);
+      values.push(review_status);
+    }
+    if (fromDate) {
+      conditions.push(`d.created_at >= $${paramIndex++}`);
+      values.push(fromDate);
+    }
+    if (toDate) {
+      conditions.push(`d.created_at <= $${paramIndex++}`);
+      values.push(toDate);
+    }
+    if (mime_type) {
+      // A trailing slash matches the whole family, e.g. "image/"
+      conditions.push(`d.mime_type LIKE $${paramIndex++}`);
+      values.push(mime_type.endsWith('/') ? `${mime_type}%` : mime_type);
+    }
+
+    const whereClause = conditions.join(' AND ');
+
+    const countResult = await db.query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM documents d WHERE ${whereClause}`,
+      values
+    );
+
+    const result = await db.query<DocumentWithNames>(
+      `SELECT d.*, c.name as client_name, camp.name as campaign_name
+       FROM documents d
+       JOIN clients c ON d.client_id = c.id
+       LEFT JOIN campaigns camp ON d.campaign_id = camp.id
+       WHERE ${whereClause}
+       ORDER BY d.created_at DESC
+       LIMIT $${paramIndex++} OFFSET $${paramIndex++}`,
+      [...values, limit, (page - 1) * limit]
+    );
+
+    const total = parseInt(countResult.rows[0]?.count || '0');
+
+    res.json({
+      documents: result.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get documents error:', error);
+    res.status(500).json({ error: 'Failed to fetch documents' });
+  }
+});
+
+/**
+ * GET /api/documents/:id
+ * Document detail with Drive and CSV links
+ */
+router.get('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const result = await db.query<DocumentWithNames>(
+      `SELECT d.*, c.name as client_name, c.phone as client_phone,
+              camp.name as campaign_name, camp.document_type, camp.period
+       FROM documents d
+       JOIN clients c ON d.client_id = c.id
+       LEFT JOIN campaigns camp ON d.campaign_id = camp.id
+       WHERE d.id = $1 AND d.accountant_id = $2`,
+      [req.params.id, accountantId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Document not found' });
+      return;
+    }
+
+    const document = result.rows[0];
+
+    res.json({
+      document,
+      links: {
+        drive: document.drive_file_url,
+        csv: document.csv_drive_file_url,
+        download: `/api/documents/${document.id}/download`
+      }
+    });
+  } catch (error) {
+    console.error('Get document error:', error);
+    res.status(500).json({ error: 'Failed to fetch document' });
+  }
+});
+
+/**
+ * GET /api/documents/:id/download
+ * Stream the original media from Twilio (Twilio media URLs need our credentials)
+ * Pass ?inline=true to preview in the browser instead of downloading
+ */
+router.get('/:id/download', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const result = await db.query<Document>(
+      `SELECT * FROM documents WHERE id = $1 AND accountant_id = $2`,
+      [req.params.id, accountantId]
+    );
+
+    if (result.rows.length === 0 || !result.rows[0].original_url) {
+      res.status(404).json({ error: 'Document not found' });
+      return;
+    }
+
+    const document = result.rows[0];
+    const fileBuffer = await downloadTwilioMedia(document.original_url!);
+
+    const mimeType = document.mime_type || 'application/octet-stream';
+    const extension = mimeType.includes('pdf') ? 'pdf' : mimeType.includes('image') ? 'jpg' : 'file';
+    const filename = (document.original_filename || `document-${document.id}.${extension}`).replace(/"/g, '');
+    const disposition = req.query.inline === 'true' ? 'inline' : 'attachment';
+
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader('Content-Length', fileBuffer.length);
+    res.setHeader('Content-Disposition', `${disposition}; filename="${filename}"`);
+    res.send(fileBuffer);
+  } catch (error) {
+    console.error('Download document error:', error);
+    res.status(502).json({ error: 'Failed to download document' });
+  }
+});
+
+/**
+ * POST /api/documents/:id/accept
+ * Accept a document as a checklist item ({ item_id? }, needed if it wasn't matched to one)
+ * The client counts as received once every required item has been accepted
+ */
+router.post('/:id/accept', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const document = await getReviewableDocument(req.params.id, accountantId);
+
+    if (!document) {
+      res.status(404).json({ error: 'Document not found' });
+      return;
+    }
+
+    const item = await resolveAcceptItem(document, req.body.item_id);
+    if ('error' in item) {
+      res.status(400).json({ error: item.error });
+      return;
+    }
+
+    const accepted = await acceptDocument(document, item.itemId);
+
+    res.json({ success: true, document: accepted });
+  } catch (error) {
+    console.error('Accept document error:', error);
+    res.status(500).json({ error: 'Failed to accept document' });
+  }
+});
+
+/**
+ * POST /api/documents/:id/reject
+ * Reject a document ({ reason }) and ask the client to send the right one
+ */
+router.post('/:id/reject', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const { reason } = req.body;
+
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'A rejection reason is required' });
+      return;
+    }
+
+    const document = await getReviewableDocument(req.params.id, accountantId);
+
+    if (!document) {
+      res.status(404).json({ error: 'Document not found' });
+      return;
+    }
+
+    if (document.review_status === 'rejected') {
+      res.status(409).json({ error: 'Document has already been rejected' });
+      return;
+    }
+
+    const result = await rejectDocument(document, reason.trim());
+
+    res.json({
+      success: true,
+      document: result.document,
+      request_sent: result.requestSent,
+      client_reset: result.clientReset
+    });
+  } catch (error) {
+    console.error('Reject document error:', error);
+    res.status(500).json({ error: 'Failed to reject document' });
+  }
+});
+
+export default router;
@@ -0,0 +1,116 @@
+import express, { Request, Response } from 'express';
+import { db } from '../lib/db.js';
+import { authenticate } from '../middleware/auth.js';
+import { parseTwilioWebhook } from '../lib/twilio.js';
+import { processInboundMessage } from '../services/inbound-message.js';
+import { AuthenticatedRequest, Client } from '../types/index.js';
+
+const router = express.Router();
+
+interface HeldInboundMessage {
+  id: string;
+  twilio_sid: string;
+  from_phone: string;
+  to_phone: string | null;
+  body: string | null;
+  num_media: number;
+  payload: Record<string, any>;
+  candidate_accountant_ids: string[];
+  status: string;
+  claimed_by: string | null;
+  claimed_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * GET /api/held-messages
+ * Messages held because the sender is a client of several practices
+ */
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const result = await db.query<HeldInboundMessage & { client_id: string; client_name: string }>(
+      `SELECT h.id, h.twilio_sid, h.from_phone, h.body, h.num_media, h.status, h.created_at,
+              c.id as client_id, c.name as client_name
+       FROM held_inbound_messages h
+       JOIN clients c ON c.phone = h.from_phone AND c.accountant_id = $1
+       WHERE $1 = ANY(h.candidate_accountant_ids)
+         AND h.status = 'held'
+       ORDER BY h.created_at DESC`,
+      [accountantId]
+    );
+
+    res.json({ messages: result.rows });
+  } catch (error) {
+    console.error('Get held messages error:', error);
+    res.status(500).json({ error: 'Failed to fetch held messages' });
+  }
+});
+
+/**
+ * POST /api/held-messages/:id/claim
+ * File a held message against the claiming practice's client
+ */
+router.post('/:id/claim', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const heldId = req.params.id;
+
+    // The claim and everything the message stores commit together, so a failure
+    // leaves the message held for another try
+    const claimed = await db.transaction(async () => {
+      // Claim atomically so two practices can't both take the same message
+      const claimResult = await db.query<HeldInboundMessage>(
+        `UPDATE held_inbound_messages
+         SET status = 'claimed', claimed_by = $1, claimed_at = NOW()
+         WHERE id = $2
+           AND status = 'held'
+           AND $1 = ANY(candidate_accountant_ids)
+         RETURNING *`,
+        [accountantId, heldId]
+      );
+
+      if (claimResult.rows.length === 0) {
+        return { error: 'Held message not found or already claimed' } as const;
+      }
+
+      const held = claimResult.rows[0];
+
+      const clientResult = await db.query<Client>(
+        `SELECT * FROM clients WHERE phone = $1 AND accountant_id = $2`,
+        [held.from_phone, accountantId]
+      );
+
+      if (clientResult.rows.length === 0) {
+        // Client was deleted since the message arrived - release it again
+        await db.query(
+          `UPDATE held_inbound_messages
+           SET status = 'held', claimed_by = NULL, claimed_at = NULL
+           WHERE id = $1`,
+          [heldId]
+        );
+        return { error: 'Client not found' } as const;
+      }
+
+      const webhook = parseTwilioWebhook(held.payload);
+      const outcome = await processInboundMessage(webhook, clientResult.rows[0]);
+      return { held, outcome } as const;
+    });
+
+    if ('error' in claimed) {
+      res.status(404).json({ error: claimed.error });
+      return;
+    }
+
+    const { held, outcome } = claimed;
+    console.log(`✅ Held message ${held.twilio_sid} claimed by accountant ${accountantId} (${outcome})`);
+
+    res.json({ success: true, outcome });
+  } catch (error) {
+    console.error('Claim held message error:', error);
+    res.status(500).json({ error: 'Failed to claim held message' });
+  }
+});
+
+export default router;
@@ -0,0 +1,131 @@
+import express, { Request, Response } from 'express';
+import { db } from '../lib/db.js';
+import { authenticate } from '../middleware/auth.js';
+import { parseIcsHolidays } from '../lib/ics.js';
+import { listHolidays, addHolidays, isValidDateKey } from '../services/holidays.js';
+import { AuthenticatedRequest } from '../types/index.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/holidays
+ * The practice's holiday calendar (?year=2026 for one year)
+ */
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const year = req.query.year ? parseInt(req.query.year as string) : undefined;
+
+    if (year !== undefined && isNaN(year)) {
+      res.status(400).json({ error: 'Invalid year' });
+      return;
+    }
+
+    const holidays = await listHolidays(accountantId, year);
+
+    res.json({ holidays });
+  } catch (error) {
+    console.error('List holidays error:', error);
+    res.status(500).json({ error: 'Failed to fetch holidays' });
+  }
+});
+
+/**
+ * POST /api/holidays
+ * Add a single holiday: { date: "2026-12-25", name?: "Christmas Day" }
+ */
+router.post('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const { date, name } = req.body;
+
+    if (!isValidDateKey(date)) {
+      res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+      return;
+    }
+
+    const added = await addHolidays(accountantId, [{ date, name: name || null }], 'manual');
+
+    if (added === 0) {
+      res.status(409).json({ error: 'That date is already a holiday' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Add holiday error:', error);
+    res.status(500).json({ error: 'Failed to add holiday' });
+  }
+});
+
+/**
+ * POST /api/holidays/import
+ * Import holidays from an .ics file, sent as the raw body (text/calendar) or as { ics: "..." }
+ * Dates already in the calendar are left as they are.
+ */
+router.post(
+  '/import',
+  authenticate,
+  express.text({ type: ['text/calendar', 'text/plain'], limit: '1mb' }),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const accountantId = (req as AuthenticatedRequest).accountant.id;
+      const ics = typeof req.body === 'string' ? req.body : req.body?.ics;
+
+      if (!ics || typeof ics !== 'string' || !ics.includes('BEGIN:VCALENDAR')) {
+        res.status(400).json({ error: 'An .ics calendar is required' });
+        return;
+      }
+
+      const parsed = parseIcsHolidays(ics);
+
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const { holidays } = parsed;
+
+      if (holidays.length === 0) {
+        res.status(400).json({ error: 'No events found in calendar' });
+        return;
+      }
+
+      const added = await addHolidays(accountantId, holidays, 'ics');
+
+      console.log(`📅 Imported ${added} holidays (${holidays.length} in file) for accountant ${accountantId}`);
+
+      res.json({ success: true, found: holidays.length, added });
+    } catch (error) {
+      console.error('Import holidays error:', error);
+      res.status(500).json({ error: 'Failed to import holidays' });
+    }
+  }
+);
+
+/**
+ * DELETE /api/holidays/:id
+ * Remove a holiday from the calendar
+ */
+router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const result = await db.query(
+      `DELETE FROM accountant_holidays WHERE id = $1 AND accountant_id = $2`,
+      [req.params.id, accountantId]
+    );
+
+    if (result.rowCount === 0) {
+      res.status(404).json({ error: 'Holiday not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete holiday error:', error);
+    res.status(500).json({ error: 'Failed to delete holiday' });
+  }
+});
+
+export default router;
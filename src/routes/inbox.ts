@@ -0,0 +1,295 @@
+import express, { Request, Response } from 'express';
+import { db } from '../lib/db.js';
+import { authenticate } from '../middleware/auth.js';
+import { markDocumentsReceived } from '../services/inbound-message.js';
+import { addClientsToCampaign } from '../services/campaign-start.js';
+import { InboxMessage, InboxAttachment } from '../services/inbox.js';
+import { AuthenticatedRequest, Campaign, Client, Document } from '../types/index.js';
+
+const router = express.Router();
+
+/**
+ * Load an inbox message owned by the accountant, or null
+ */
+async function getInboxMessage(id: string, accountantId: string): Promise<InboxMessage | null> {
+  const result = await db.query<InboxMessage>(
+    `SELECT * FROM inbox_messages WHERE id = $1 AND accountant_id = $2`,
+    [id, accountantId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * GET /api/inbox
+ * List inbox messages (defaults to open ones) with their attachments
+ */
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const status = (req.query.status as string) || 'open';
+
+    const result = await db.query<InboxMessage & { client_name: string | null; attachments: InboxAttachment[] }>(
+      `SELECT i.*, c.name as client_name,
+              COALESCE(
+                (SELECT json_agg(a ORDER BY a.media_index)
+                 FROM inbox_attachments a
+                 WHERE a.inbox_message_id = i.id),
+                '[]'
+              ) as attachments
+       FROM inbox_messages i
+       LEFT JOIN clients c ON i.client_id = c.id
+       WHERE i.accountant_id = $1
+         AND ($2 = 'all' OR i.status = $2)
+       ORDER BY i.created_at DESC
+       LIMIT 100`,
+      [accountantId, status]
+    );
+
+    res.json({ messages: result.rows });
+  } catch (error) {
+    console.error('Get inbox error:', error);
+    res.status(500).json({ error: 'Failed to fetch inbox' });
+  }
+});
+
+/**
+ * POST /api/inbox/:id/link
+ * Link an inbox message to an existing client ({ client_id }) or a new one ({ name, email })
+ */
+router.post('/:id/link', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const { client_id, name, email } = req.body;
+
+    const inboxMessage = await getInboxMessage(req.params.id, accountantId);
+
+    if (!inboxMessage || inboxMessage.status === 'discarded') {
+      res.status(404).json({ error: 'Inbox message not found' });
+      return;
+    }
+
+    let client: Client;
+
+    if (client_id) {
+      const clientResult = await db.query<Client>(
+        `SELECT * FROM clients WHERE id = $1 AND accountant_id = $2`,
+        [client_id, accountantId]
+      );
+
+      if (clientResult.rows.length === 0) {
+        res.status(404).json({ error: 'Client not found' });
+        return;
+      }
+
+      client = clientResult.rows[0];
+    } else {
+      if (!name) {
+        res.status(400).json({ error: 'client_id or name is required' });
+        return;
+      }
+
+      // Same subscription limit as POST /api/clients
+      const limitResult = await db.query<{ client_limit: number | null; count: string }>(
+        `SELECT a.client_limit,
+                (SELECT COUNT(*) FROM clients WHERE accountant_id = a.id) as count
+         FROM accountants a WHERE a.id = $1`,
+        [accountantId]
+      );
+      const clientLimit = limitResult.rows[0]?.client_limit || 1;
+      const currentCount = parseInt(limitResult.rows[0]?.count || '0');
+
+      if (currentCount >= clientLimit) {
+        res.status(403).json({
+          error: 'Client limit reached',
+          upgrade: true,
+          currentCount,
+          limit: clientLimit
+        });
+        return;
+      }
+
+      const existing = await db.query<Client>(
+        'SELECT id FROM clients WHERE accountant_id = $1 AND phone = $2',
+        [accountantId, inboxMessage.from_phone]
+      );
+
+      if (existing.rows.length > 0) {
+        res.status(400).json({ error: 'Client with this phone number already exists' });
+        return;
+      }
+
+      const clientResult = await db.query<Client>(
+        `INSERT INTO clients (accountant_id, name, phone, email)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [accountantId, name, inboxMessage.from_phone, email || null]
+      );
+
+      client = clientResult.rows[0];
+    }
+
+    // Record the message in the client's conversation history
+    await db.query(
+      `INSERT INTO messages
+       (accountant_id, client_id, campaign_id, direction, sender, body, twilio_sid)
+       VALUES ($1, $2, NULL, 'inbound', $3, $4, $5)
+       ON CONFLICT (twilio_sid) DO NOTHING`,
+      [accountantId, client.id, inboxMessage.from_phone, inboxMessage.body || '', inboxMessage.twilio_sid]
+    );
+
+    const updated = await db.query<InboxMessage>(
+      `UPDATE inbox_messages
+       SET client_id = $1,
+           status = CASE WHEN status = 'open' THEN 'linked' ELSE status END
+       WHERE id = $2
+       RETURNING *`,
+      [client.id, inboxMessage.id]
+    );
+
+    res.json({ success: true, message: updated.rows[0], client });
+  } catch (error) {
+    console.error('Link inbox message error:', error);
+    res.status(500).json({ error: 'Failed to link inbox message' });
+  }
+});
+
+/**
+ * POST /api/inbox/:id/attach
+ * File a linked inbox message's attachments against a campaign ({ campaign_id })
+ */
+router.post('/:id/attach', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const { campaign_id } = req.body;
+
+    if (!campaign_id) {
+      res.status(400).json({ error: 'campaign_id is required' });
+      return;
+    }
+
+    const inboxMessage = await getInboxMessage(req.params.id, accountantId);
+
+    if (!inboxMessage || inboxMessage.status === 'discarded') {
+      res.status(404).json({ error: 'Inbox message not found' });
+      return;
+    }
+
+    if (inboxMessage.status === 'attached') {
+      res.status(409).json({ error: 'Inbox message has already been attached to a campaign' });
+      return;
+    }
+
+    if (!inboxMessage.client_id) {
+      res.status(400).json({ error: 'Link the message to a client first' });
+      return;
+    }
+
+    const campaignResult = await db.query<Campaign>(
+      `SELECT * FROM campaigns WHERE id = $1 AND accountant_id = $2`,
+      [campaign_id, accountantId]
+    );
+
+    if (campaignResult.rows.length === 0) {
+      res.status(404).json({ error: 'Campaign not found' });
+      return;
+    }
+
+    const campaign = campaignResult.rows[0];
+
+    const clientResult = await db.query<Client>(
+      `SELECT * FROM clients WHERE id = $1`,
+      [inboxMessage.client_id]
+    );
+    const client = clientResult.rows[0];
+
+    // Add the client to the campaign if they aren't already part of it
+    const added = await addClientsToCampaign(campaign, [client.id]);
+
+    if ('error' in added) {
+      res.status(added.status).json({ error: added.error });
+      return;
+    }
+
+    await db.query(
+      `UPDATE messages SET campaign_id = $1 WHERE twilio_sid = $2`,
+      [campaign.id, inboxMessage.twilio_sid]
+    );
+
+    const attachmentsResult = await db.query<InboxAttachment>(
+      `SELECT * FROM inbox_attachments WHERE inbox_message_id = $1 ORDER BY media_index`,
+      [inboxMessage.id]
+    );
+
+    const documents: Document[] = [];
+    for (const attachment of attachmentsResult.rows) {
+      const documentResult = await db.query<Document>(
+        `INSERT INTO documents
+         (accountant_id, client_id, campaign_id, original_url, mime_type, conversion_status,
+          twilio_message_sid, media_index)
+         VALUES ($1, $2, $3, $4, $5, 'pending_upload', $6, $7)
+         ON CONFLICT (twilio_message_sid, media_index) DO NOTHING
+         RETURNING *`,
+        [
+          accountantId,
+          client.id,
+          campaign.id,
+          attachment.original_url,
+          attachment.mime_type,
+          inboxMessage.twilio_sid,
+          attachment.media_index
+        ]
+      );
+
+      if (documentResult.rows[0]) {
+        documents.push(documentResult.rows[0]);
+      }
+    }
+
+    if (documents.length > 0) {
+      await markDocumentsReceived(client, campaign, documents);
+    }
+
+    const updated = await db.query<InboxMessage>(
+      `UPDATE inbox_messages
+       SET campaign_id = $1, status = 'attached', resolved_at = NOW()
+       WHERE id = $2
+       RETURNING *`,
+      [campaign.id, inboxMessage.id]
+    );
+
+    res.json({ success: true, message: updated.rows[0], documents });
+  } catch (error) {
+    console.error('Attach inbox message error:', error);
+    res.status(500).json({ error: 'Failed to attach inbox message' });
+  }
+});
+
+/**
+ * POST /api/inbox/:id/discard
+ * Dismiss an inbox message (its Drive copy in Unsorted is left in place)
+ */
+router.post('/:id/discard', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const result = await db.query<InboxMessage>(
+      `UPDATE inbox_messages
+       SET status = 'discarded', resolved_at = NOW()
+       WHERE id = $1 AND accountant_id = $2 AND status != 'attached'
+       RETURNING *`,
+      [req.params.id, accountantId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Inbox message not found' });
+      return;
+    }
+
+    res.json({ success: true, message: result.rows[0] });
+  } catch (error) {
+    console.error('Discard inbox message error:', error);
+    res.status(500).json({ error: 'Failed to discard inbox message' });
+  }
+});
+
+export default router;
@@ -217,12 +217,12 @@ export async function createNotification(
     );
     console.log(`✅ Notification created successfully: ${result.rows[0].id}`);
 
-    // Send email notification (async, don't block)
-    sendEmailNotification(accountantId, type, title, message, clientName, campaignName, metadata)
+    // Send email notification (async, don't block), once the notification is committed
+    db.afterCommit(() => sendEmailNotification(accountantId, type, title, message, clientName, campaignName, metadata)
       .catch((error) => {
         console.error('❌ Error sending email notification:', error);
         // Don't throw - email failures shouldn't break notification creation
-      });
+      }));
 
   } catch (error) {
     console.error('❌ Error creating notification:', error);
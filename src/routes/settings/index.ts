@@ -4,6 +4,11 @@ import { auth } from '../../middleware/auth.js';
 import { AuthenticatedRequest, Accountant } from '../../types/index.js';
 import { google } from 'googleapis';
 import { getAccountantTokens, refreshTokensIfNeeded } from '../../lib/google-drive.js';
+import { isValidTimezone } from '../../lib/timezone.js';
+import { DEFAULT_OPT_OUT_KEYWORDS, validateOptOutKeywords } from '../../services/suppression.js';
+import { getEscalationSettings, validateEscalationSettings, saveEscalationSettings } from '../../services/escalation.js';
+import { getDigestSettings, validateDigestSettings, saveDigestSettings } from '../../services/digest.js';
+import { normalizeTwilioPhone } from '../../services/inbound-message.js';
 
 const router = express.Router();
 
@@ -23,6 +28,9 @@ router.get('/', auth, async (req: Request, res: Response): Promise<void> => {
         amy_name,
         amy_tone,
         contact_details,
+        twilio_phone_number,
+        timezone,
+        opt_out_keywords,
         google_drive_folder_id,
         google_drive_connected_at,
         notification_email,
@@ -48,6 +56,10 @@ router.get('/', auth, async (req: Request, res: Response): Promise<void> => {
         amyName: accountant.amy_name || 'Amy',
         amyTone: accountant.amy_tone || 'friendly',
         contactDetails: accountant.contact_details || '',
+        twilioPhoneNumber: accountant.twilio_phone_number || '',
+        timezone: accountant.timezone,
+        defaultOptOutKeywords: DEFAULT_OPT_OUT_KEYWORDS,
+        optOutKeywords: accountant.opt_out_keywords || [],
         googleDriveConnected: !!accountant.google_drive_connected_at,
         googleDriveConnectedAt: accountant.google_drive_connected_at,
         notificationEmail: accountant.notification_email,
@@ -73,9 +85,40 @@ router.put('/', auth, async (req: Request, res: Response): Promise<void> => {
       amyTone,
       contactDetails,
       notificationEmail,
-      notificationStuck
+      notificationStuck,
+      twilioPhoneNumber,
+      timezone,
+      optOutKeywords
     } = req.body;
 
+    // The practice's Twilio number routes inbound messages, so only an admin can assign it.
+    // Sending back the number already on the account (e.g. the whole settings form) is fine.
+    if (twilioPhoneNumber !== undefined && twilioPhoneNumber !== null) {
+      const current = await db.query<{ twilio_phone_number: string | null }>(
+        'SELECT twilio_phone_number FROM accountants WHERE id = $1',
+        [accountantId]
+      );
+      if (normalizeTwilioPhone(String(twilioPhoneNumber)) !== (current.rows[0]?.twilio_phone_number || '')) {
+        res.status(403).json({ success: false, error: 'Twilio numbers are assigned by DocChase support' });
+        return;
+      }
+    }
+
+    if (timezone !== undefined && timezone !== null && !isValidTimezone(timezone)) {
+      res.status(400).json({ success: false, error: 'Invalid timezone' });
+      return;
+    }
+
+    let keywords: string[] | null = null;
+    if (optOutKeywords !== undefined && optOutKeywords !== null) {
+      const validation = validateOptOutKeywords(optOutKeywords);
+      if ('error' in validation) {
+        res.status(400).json({ success: false, error: validation.error });
+        return;
+      }
+      keywords = validation.keywords;
+    }
+
     await db.query(
       `UPDATE accountants
       SET
@@ -85,9 +128,11 @@ router.put('/', auth, async (req: Request, res: Response): Promise<void> => {
         contact_details = COALESCE($4, contact_details),
         notification_email = COALESCE($5, notification_email),
         notification_stuck = COALESCE($6, notification_stuck),
+        timezone = COALESCE($7, timezone),
+        opt_out_keywords = COALESCE($8, opt_out_keywords),
         updated_at = NOW()
-      WHERE id = $7`,
-      [practiceName, amyName, amyTone, contactDetails, notificationEmail, notificationStuck, accountantId]
+      WHERE id = $9`,
+      [practiceName, amyName, amyTone, contactDetails, notificationEmail, notificationStuck, timezone, keywords, accountantId]
     );
 
     res.json({ success: true, message: 'Settings updated' });
@@ -97,6 +142,101 @@ router.put('/', auth, async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * GET /api/settings/escalation
+ * What happens when a client is flagged as failed
+ */
+router.get('/escalation', auth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const settings = await getEscalationSettings(accountantId);
+
+    res.json({
+      success: true,
+      escalation: {
+        notifyAccountant: settings.notify_accountant,
+        clientChannel: settings.client_channel,
+        assigneeId: settings.assignee_id
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching escalation settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch escalation settings' });
+  }
+});
+
+/**
+ * PUT /api/settings/escalation
+ * Replace the escalation chain: { notifyAccountant, clientChannel: 'sms' | 'email' | null, assigneeId }
+ */
+router.put('/escalation', auth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const validation = await validateEscalationSettings(accountantId, req.body);
+    if ('error' in validation) {
+      res.status(400).json({ success: false, error: validation.error });
+      return;
+    }
+
+    await saveEscalationSettings(accountantId, validation.settings);
+
+    res.json({ success: true, message: 'Escalation settings updated' });
+  } catch (error) {
+    console.error('Error updating escalation settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to update escalation settings' });
+  }
+});
+
+/**
+ * GET /api/settings/digest
+ * Daily/weekly summary email settings
+ */
+router.get('/digest', auth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const settings = await getDigestSettings(accountantId);
+
+    res.json({
+      success: true,
+      digest: {
+        frequency: settings.frequency,
+        sendTime: settings.send_time,
+        weekday: settings.weekday
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching digest settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch digest settings' });
+  }
+});
+
+/**
+ * PUT /api/settings/digest
+ * Replace digest settings: { frequency: 'daily' | 'weekly' | null, sendTime: 'HH:MM', weekday: 0-6 }
+ * While a digest is on, received/stuck/failed notifications are emailed in it instead of one by one.
+ */
+router.put('/digest', auth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const validation = validateDigestSettings(req.body);
+    if ('error' in validation) {
+      res.status(400).json({ success: false, error: validation.error });
+      return;
+    }
+
+    await saveDigestSettings(accountantId, validation.settings);
+
+    res.json({ success: true, message: 'Digest settings updated' });
+  } catch (error) {
+    console.error('Error updating digest settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to update digest settings' });
+  }
+});
+
 /**
  * DELETE /api/settings/google
  * Disconnect Google Drive
@@ -0,0 +1,65 @@
+import express, { Request, Response } from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { listSuppressedNumbers, clearSuppressedNumber, listOptOutEvents } from '../services/suppression.js';
+import { AuthenticatedRequest } from '../types/index.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/suppressions
+ * Numbers the practice won't message because the client opted out
+ */
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const suppressions = await listSuppressedNumbers(accountantId);
+
+    res.json({ suppressions });
+  } catch (error) {
+    console.error('List suppressions error:', error);
+    res.status(500).json({ error: 'Failed to fetch suppression list' });
+  }
+});
+
+/**
+ * GET /api/suppressions/events
+ * Audit trail of opt-outs and clears (?limit=100)
+ */
+router.get('/events', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+    const events = await listOptOutEvents(accountantId, limit);
+
+    res.json({ events });
+  } catch (error) {
+    console.error('List opt-out events error:', error);
+    res.status(500).json({ error: 'Failed to fetch opt-out history' });
+  }
+});
+
+/**
+ * DELETE /api/suppressions/:id
+ * Let the practice message a number again (e.g. the client asked to opt back in)
+ */
+router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const cleared = await clearSuppressedNumber(accountantId, req.params.id);
+
+    if (!cleared) {
+      res.status(404).json({ error: 'Suppression not found' });
+      return;
+    }
+
+    res.json({ success: true, suppression: cleared });
+  } catch (error) {
+    console.error('Clear suppression error:', error);
+    res.status(500).json({ error: 'Failed to clear suppression' });
+  }
+});
+
+export default router;
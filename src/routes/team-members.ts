@@ -0,0 +1,83 @@
+import express, { Request, Response } from 'express';
+import { db } from '../lib/db.js';
+import { authenticate } from '../middleware/auth.js';
+import { AuthenticatedRequest, TeamMember } from '../types/index.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/team-members
+ * People at the practice that flagged clients can be assigned to
+ */
+router.get('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const result = await db.query<TeamMember>(
+      `SELECT * FROM team_members
+       WHERE accountant_id = $1
+       ORDER BY name`,
+      [accountantId]
+    );
+
+    res.json({ team_members: result.rows });
+  } catch (error) {
+    console.error('Get team members error:', error);
+    res.status(500).json({ error: 'Failed to fetch team members' });
+  }
+});
+
+/**
+ * POST /api/team-members
+ * Add a team member: { name, email? }
+ */
+router.post('/', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+    const { name, email } = req.body;
+
+    if (!name || typeof name !== 'string') {
+      res.status(400).json({ error: 'Name is required' });
+      return;
+    }
+
+    const result = await db.query<TeamMember>(
+      `INSERT INTO team_members (accountant_id, name, email)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [accountantId, name.trim(), email || null]
+    );
+
+    res.json({ success: true, team_member: result.rows[0] });
+  } catch (error) {
+    console.error('Create team member error:', error);
+    res.status(500).json({ error: 'Failed to add team member' });
+  }
+});
+
+/**
+ * DELETE /api/team-members/:id
+ * Clients assigned to them become unassigned
+ */
+router.delete('/:id', authenticate, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const accountantId = (req as AuthenticatedRequest).accountant.id;
+
+    const result = await db.query(
+      'DELETE FROM team_members WHERE id = $1 AND accountant_id = $2 RETURNING id',
+      [req.params.id, accountantId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: 'Team member not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Team member removed' });
+  } catch (error) {
+    console.error('Delete team member error:', error);
+    res.status(500).json({ error: 'Failed to remove team member' });
+  }
+});
+
+export default router;
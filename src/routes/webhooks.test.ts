@@ -0,0 +1,232 @@
+import { describe, it, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+// Twilio config is read when the modules load, so set it before importing them
+process.env.TWILIO_AUTH_TOKEN = 'test-auth-token';
+process.env.TWILIO_PHONE_NUMBER = 'whatsapp:+14155238886';
+process.env.API_URL = 'https://api.example.com';
+delete process.env.TWILIO_SKIP_SIGNATURE_VALIDATION;
+
+// The webhook logs every step (and the failed delivery below); keep the test output readable
+console.log = () => {};
+console.warn = () => {};
+console.error = () => {};
+
+const { db } = await import('../lib/db.js');
+const { computeTwilioSignature } = await import('../lib/twilio.js');
+const { default: webhooksRouter } = await import('./webhooks.js');
+
+const PRACTICE_NUMBER = '+447700900001';
+
+/**
+ * Stand-in for Postgres covering the queries an unknown sender's message makes
+ * Claims and inbox rows are only kept, and after-commit work (notification emails)
+ * only started, if the surrounding transaction commits.
+ */
+function createFakeDatabase() {
+  const claims = new Set<string>();
+  const inbox: string[] = [];
+  const afterCommitted: Array<() => void | Promise<void>> = [];
+  const pendingAfterCommit = new AsyncLocalStorage<Array<() => void | Promise<void>>>();
+  const state = { failNextInboxInsert: false, failNextJobInsert: false };
+
+  const query = async (text: string, params: any[] = []) => {
+    if (text.includes('INSERT INTO inbound_webhooks')) {
+      if (claims.has(params[0])) {
+        return { rows: [], rowCount: 0 };
+      }
+      claims.add(params[0]);
+      return { rows: [{ twilio_sid: params[0] }], rowCount: 1 };
+    }
+    if (text.includes('FROM accountants WHERE twilio_phone_number')) {
+      const rows = params[0] === PRACTICE_NUMBER ? [{ id: 'accountant-1' }] : [];
+      return { rows, rowCount: rows.length };
+    }
+    if (text.includes('INSERT INTO inbox_messages')) {
+      if (state.failNextInboxInsert) {
+        state.failNextInboxInsert = false;
+        throw new Error('connection reset');
+      }
+      inbox.push(params[2]);
+      return { rows: [{ id: `inbox-${inbox.length}` }], rowCount: 1 };
+    }
+    if (text.includes('INSERT INTO inbox_attachments')) {
+      return { rows: [{ id: `attachment-${params[1]}` }], rowCount: 1 };
+    }
+    if (text.includes('INSERT INTO notifications')) {
+      return { rows: [{ id: 'notification-1' }], rowCount: 1 };
+    }
+    if (text.includes('INSERT INTO jobs') && state.failNextJobInsert) {
+      state.failNextJobInsert = false;
+      throw new Error('connection reset');
+    }
+    return { rows: [], rowCount: 0 };
+  };
+
+  // Undo this transaction's claims and inbox rows if it fails, like a ROLLBACK would
+  const transaction = async <T>(fn: () => Promise<T>): Promise<T> => {
+    const claimsBefore = new Set(claims);
+    const inboxBefore = inbox.length;
+    const pending: Array<() => void | Promise<void>> = [];
+    try {
+      const result = await pendingAfterCommit.run(pending, fn);
+      afterCommitted.push(...pending);
+      return result;
+    } catch (error) {
+      claims.clear();
+      claimsBefore.forEach(sid => claims.add(sid));
+      inbox.length = inboxBefore;
+      throw error;
+    }
+  };
+
+  // Record the work rather than running it (it would try to send real emails)
+  const afterCommit = (fn: () => void | Promise<void>): void => {
+    (pendingAfterCommit.getStore() ?? afterCommitted).push(fn);
+  };
+
+  return { query, transaction, afterCommit, inbox, afterCommitted, state };
+}
+
+describe('POST /api/webhooks/twilio replays', () => {
+  let server: Server;
+  let baseUrl: string;
+  let fake: ReturnType<typeof createFakeDatabase>;
+
+  before(async () => {
+    const app = express();
+    app.use(express.urlencoded({ extended: true }));
+    app.use('/api/webhooks', webhooksRouter);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    mock.restoreAll();
+  });
+
+  beforeEach(() => {
+    mock.restoreAll();
+    fake = createFakeDatabase();
+    mock.method(db, 'query', fake.query);
+    mock.method(db, 'transaction', fake.transaction);
+    mock.method(db, 'afterCommit', fake.afterCommit);
+  });
+
+  // Deliver a message the way Twilio does, signed against the public URL
+  function deliver(messageSid: string, media: Record<string, string> = { NumMedia: '0' }): Promise<Response> {
+    const params = {
+      MessageSid: messageSid,
+      From: 'whatsapp:+447700900999',
+      To: `whatsapp:${PRACTICE_NUMBER}`,
+      Body: 'Hi, is this the right number?',
+      ...media,
+    };
+
+    return fetch(`${baseUrl}/api/webhooks/twilio`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'X-Twilio-Signature': computeTwilioSignature('test-auth-token', 'https://api.example.com/api/webhooks/twilio', params),
+      },
+      body: new URLSearchParams(params),
+    });
+  }
+
+  it('stores a message once when Twilio retries it', async () => {
+    const first = await deliver('SM-retried');
+    const retry = await deliver('SM-retried');
+
+    assert.equal(first.status, 200);
+    assert.equal(retry.status, 200);
+    assert.deepEqual(fake.inbox, ['SM-retried']);
+  });
+
+  it('stores a message once when deliveries overlap', async () => {
+    const responses = await Promise.all([deliver('SM-overlap'), deliver('SM-overlap'), deliver('SM-overlap')]);
+
+    assert.deepEqual(responses.map(response => response.status), [200, 200, 200]);
+    assert.deepEqual(fake.inbox, ['SM-overlap']);
+  });
+
+  it('lets the retry process a message whose first attempt failed', async () => {
+    fake.state.failNextInboxInsert = true;
+
+    const failed = await deliver('SM-failed-once');
+    assert.equal(failed.status, 500);
+    assert.deepEqual(fake.inbox, []);
+
+    const retry = await deliver('SM-failed-once');
+    assert.equal(retry.status, 200);
+    assert.deepEqual(fake.inbox, ['SM-failed-once']);
+  });
+
+  it('only emails the accountant for the delivery that commits', async () => {
+    const media = { NumMedia: '1', MediaUrl0: 'https://api.twilio.com/media/ME1', MediaContentType0: 'image/jpeg' };
+    // Fails after the inbox notification, while queueing the attachment upload
+    fake.state.failNextJobInsert = true;
+
+    const failed = await deliver('SM-notified-once', media);
+    assert.equal(failed.status, 500);
+    assert.equal(fake.afterCommitted.length, 0);
+
+    const retry = await deliver('SM-notified-once', media);
+    assert.equal(retry.status, 200);
+    assert.equal(fake.afterCommitted.length, 1);
+  });
+});
+
+describe('POST /api/webhooks/twilio/status signatures', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use(express.urlencoded({ extended: true }));
+    app.use('/api/webhooks', webhooksRouter);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    mock.restoreAll();
+    mock.method(db, 'query', createFakeDatabase().query);
+    process.env.TWILIO_STATUS_CALLBACK_URL = 'https://hooks.example.com/twilio/status';
+  });
+
+  after(() => {
+    server.close();
+    mock.restoreAll();
+    delete process.env.TWILIO_STATUS_CALLBACK_URL;
+  });
+
+  function sendStatus(signedUrl: string): Promise<Response> {
+    const params = { MessageSid: 'SM-status', MessageStatus: 'delivered' };
+
+    return fetch(`${baseUrl}/api/webhooks/twilio/status`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'X-Twilio-Signature': computeTwilioSignature('test-auth-token', signedUrl, params),
+      },
+      body: new URLSearchParams(params),
+    });
+  }
+
+  it('accepts callbacks signed against the registered status callback URL', async () => {
+    const response = await sendStatus('https://hooks.example.com/twilio/status');
+    assert.equal(response.status, 200);
+  });
+
+  it('rejects callbacks signed against any other URL', async () => {
+    const response = await sendStatus('https://api.example.com/api/webhooks/twilio/status');
+    assert.equal(response.status, 403);
+  });
+});
@@ -1,199 +1,114 @@
 import express, { Request, Response } from 'express';
 import { db } from '../lib/db.js';
-import { parseTwilioWebhook, TwilioWebhookPayload, sendWhatsApp } from '../lib/twilio.js';
-import { generateResponse, shouldRespondToMessage } from '../lib/claude.js';
-import { processDocument } from '../lib/banktofile.js';
+import { parseTwilioWebhook, TwilioWebhookPayload } from '../lib/twilio.js';
 import { createNotification } from './notifications.js';
-import { Message, Client, Campaign, Document } from '../types/index.js';
+import { verifyTwilioSignature, verifyTwilioStatusSignature } from '../middleware/twilio-signature.js';
+import {
+  resolveInboundRoute,
+  processInboundMessage,
+  holdAmbiguousMessage,
+  handleOptOutMessage
+} from '../services/inbound-message.js';
+import { addToInbox } from '../services/inbox.js';
+import { completeCampaignIfDone } from '../services/campaign-completion.js';
+import { Message } from '../types/index.js';
 
 const router = express.Router();
 
 /**
- * Twilio WhatsApp webhook handler
- * Receives incoming messages from clients
+ * Claim an inbound message for processing
+ * Twilio retries webhooks on timeouts/5xx, so the same MessageSid can arrive more than once.
+ * Run inside the processing transaction: a retry that arrives mid-processing blocks here
+ * until the first attempt commits (and then skips it) or rolls back (and then takes over).
  */
-router.post('/twilio', async (req: Request, res: Response): Promise<void> => {
-  try {
-    console.log('📥 Received Twilio webhook:', req.body);
-
-    // Parse webhook payload
-    const webhook: TwilioWebhookPayload = parseTwilioWebhook(req.body);
-
-    // Extract phone number (remove whatsapp: prefix)
-    const clientPhone = webhook.From.replace('whatsapp:', '');
-
-    // Find client by phone number
-    const clientResult = await db.query<Client>(
-      `SELECT * FROM clients WHERE phone = $1`,
-      [clientPhone]
-    );
-
-    if (clientResult.rows.length === 0) {
-      console.log(`⚠️ Unknown client: ${clientPhone}`);
-      res.status(200).send('OK'); // Still return 200 to Twilio
-      return;
-    }
-
-    const client = clientResult.rows[0];
-
-    // Find active campaign for this client
-    const campaignResult = await db.query<Campaign & { campaign_client_id: string }>(
-      `SELECT c.*, cc.id as campaign_client_id
-       FROM campaigns c
-       JOIN campaign_clients cc ON c.id = cc.campaign_id
-       WHERE cc.client_id = $1 AND c.status = 'active'
-       ORDER BY c.created_at DESC
-       LIMIT 1`,
-      [client.id]
-    );
-
-    if (campaignResult.rows.length === 0) {
-      console.log(`⚠️ No active campaign for client: ${client.name}`);
-      res.status(200).send('OK');
-      return;
-    }
-
-    const campaign = campaignResult.rows[0];
-
-    // Store incoming message in database
-    const messageResult = await db.query<Message>(
-      `INSERT INTO messages
-       (accountant_id, client_id, campaign_id, direction, sender, body, twilio_sid)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
-       RETURNING *`,
-      [
-        campaign.accountant_id,
-        client.id,
-        campaign.id,
-        'inbound',
-        clientPhone,
-        webhook.Body,
-        webhook.MessageSid
-      ]
-    );
-
-    console.log(`✅ Stored message from ${client.name}: "${webhook.Body}"`);
-
-    // Check if message has media (document/image)
-    const hasMedia = parseInt(webhook.NumMedia) > 0;
+async function claimInboundMessage(messageSid: string): Promise<boolean> {
+  if (!messageSid) {
+    return true;
+  }
 
-    if (hasMedia && webhook.MediaUrl0) {
-      console.log(`📎 Media received: ${webhook.MediaContentType0} - ${webhook.MediaUrl0}`);
+  const result = await db.query(
+    `INSERT INTO inbound_webhooks (twilio_sid)
+     VALUES ($1)
+     ON CONFLICT (twilio_sid) DO NOTHING
+     RETURNING twilio_sid`,
+    [messageSid]
+  );
 
-      // Store document in database
-      const documentResult = await db.query<Document>(
-        `INSERT INTO documents
-         (accountant_id, client_id, campaign_id, original_url, conversion_status)
-         VALUES ($1, $2, $3, $4, $5)
-         RETURNING *`,
-        [
-          campaign.accountant_id,
-          client.id,
-          campaign.id,
-          webhook.MediaUrl0,
-          'pending_upload'
-        ]
-      );
+  return result.rows.length > 0;
+}
 
-      const document = documentResult.rows[0];
-
-      // Update campaign_client status to received
-      await db.query(
-        `UPDATE campaign_clients
-         SET status = 'received',
-             received_at = NOW()
-         WHERE id = $1`,
-        [campaign.campaign_client_id]
-      );
+/**
+ * Claim, route and store an inbound message
+ * Returns false if the message was already processed.
+ */
+async function handleInboundWebhook(webhook: TwilioWebhookPayload, rawPayload: Record<string, any>): Promise<boolean> {
+  if (!(await claimInboundMessage(webhook.MessageSid))) {
+    return false;
+  }
 
-      console.log(`✅ Document stored for ${client.name}`);
+  // Resolve the practice from the To number, then the client within it
+  const route = await resolveInboundRoute(webhook.From, webhook.To);
 
-      // Create notification for document received
-      await createNotification(
-        campaign.accountant_id,
-        'client_response',
-        'Document Received',
-        `${client.name} has sent a document`,
-        client.name,
-        campaign.name
-      );
+  // STOP and its synonyms suppress the sender rather than being filed as a message
+  if (await handleOptOutMessage(webhook, route)) {
+    return true;
+  }
 
-      // Process document asynchronously (upload to Drive + convert to CSV)
-      // Don't await - let it run in background so we can respond to Twilio quickly
-      processDocument(
-        document.id,
-        campaign.accountant_id,
-        campaign.id,
-        campaign.document_type,
-        campaign.period,
-        client.name,
-        client.phone,
-        webhook.MediaUrl0,
-        webhook.MediaContentType0 || 'unknown'
-      ).catch(error => {
-        console.error(`❌ Background processing failed for document ${document.id}:`, error);
-      });
-    }
+  switch (route.type) {
+    case 'client':
+      await processInboundMessage(webhook, route.client);
+      break;
+
+    case 'ambiguous':
+      console.log(`⚠️ ${webhook.From} matches clients at ${route.candidates.length} practices - holding message`);
+      await holdAmbiguousMessage(webhook, rawPayload, route.candidates);
+      break;
+
+    case 'unknown':
+      if (route.accountantId) {
+        console.log(`⚠️ Unknown client: ${webhook.From} - adding to inbox`);
+        await addToInbox(webhook, route.accountantId, 'unknown_sender');
+      } else {
+        // Without a To mapping there's no practice to file it under
+        console.log(`⚠️ Unknown client: ${webhook.From} (no practice owns ${webhook.To})`);
+      }
+      break;
+  }
 
-    // Check if we should respond to this message
-    // Note: All AI responses are disabled because WhatsApp Business API requires
-    // approved templates for all business-initiated messages. Use templates only.
-    const shouldRespond = false; // Disabled - use templates instead
+  return true;
+}
 
-    if (shouldRespond) {
-      // Get accountant details for response
-      const accountantResult = await db.query<{
-        practice_name: string;
-        amy_name: string;
-        contact_details: string | null;
-      }>(
-        `SELECT practice_name, amy_name, contact_details FROM accountants WHERE id = $1`,
-        [campaign.accountant_id]
-      );
-      const practiceName = accountantResult.rows[0]?.practice_name || 'your accountant';
-      const assistantName = accountantResult.rows[0]?.amy_name || 'Amy';
-      const contactDetails = accountantResult.rows[0]?.contact_details || null;
+/**
+ * Twilio WhatsApp webhook handler
+ * Receives incoming messages from clients
+ */
+router.post('/twilio', verifyTwilioSignature, async (req: Request, res: Response): Promise<void> => {
+  try {
+    console.log('📥 Received Twilio webhook:', req.body);
 
-      // Generate assistant's response using Claude
-      const assistantResponse = await generateResponse(
-        client.id,
-        client.name,
-        webhook.Body,
-        campaign.id,
-        practiceName,
-        campaign.document_type,
-        campaign.period,
-        assistantName,
-        contactDetails
-      );
+    // Parse webhook payload
+    const webhook: TwilioWebhookPayload = parseTwilioWebhook(req.body);
 
-      // Send assistant's response
-      await sendWhatsApp(
-        clientPhone,
-        assistantResponse,
-        campaign.accountant_id,
-        client.id,
-        campaign.id
-      );
+    // The claim and everything the message stores commit together
+    const processed = await db.transaction(() => handleInboundWebhook(webhook, req.body));
 
-      console.log(`✅ ${assistantName} responded to ${client.name}: "${assistantResponse}"`);
-    } else {
-      console.log(`⏭️ Skipped response to ${client.name} - message doesn't require reply`);
+    if (!processed) {
+      console.log(`🔁 Duplicate webhook for ${webhook.MessageSid} - already processed, skipping`);
     }
 
     // Return empty response to Twilio (prevents duplicate messages)
     res.status(200).send('');
   } catch (error) {
     console.error('❌ Webhook error:', error);
-    // Still return 200 to prevent Twilio retries
-    res.status(200).send('OK');
+    // Nothing was stored (the claim rolled back too), so let Twilio retry
+    res.status(500).send('Error');
   }
 });
 
 /**
  * Webhook status callback (optional - for message delivery status)
  */
-router.post('/twilio/status', async (req: Request, res: Response): Promise<void> => {
+router.post('/twilio/status', verifyTwilioStatusSignature, async (req: Request, res: Response): Promise<void> => {
   try {
     const { MessageSid, MessageStatus } = req.body;
 
@@ -248,6 +163,10 @@ router.post('/twilio/status', async (req: Request, res: Response): Promise<void>
         );
 
         console.log(`🚨 Notification created and status updated to 'failed' for ${clientName}`);
+
+        if (message.campaign_id) {
+          await completeCampaignIfDone(message.campaign_id);
+        }
       }
     }
 
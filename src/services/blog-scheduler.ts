@@ -1,4 +1,4 @@
-import { db } from '../lib/db.js';
+import { db, withAdvisoryLock } from '../lib/db.js';
 import cron from 'node-cron';
 
 /**
@@ -32,6 +32,21 @@ async function publishScheduledPosts(): Promise<void> {
   }
 }
 
+/**
+ * Publish scheduled posts unless another instance is already doing it
+ */
+async function runBlogScheduler(): Promise<void> {
+  try {
+    const run = await withAdvisoryLock('blog_scheduler', publishScheduledPosts);
+
+    if (!run.acquired) {
+      console.log('[Blog Scheduler] Another instance is already checking, skipping');
+    }
+  } catch (error) {
+    console.error('[Blog Scheduler] Error acquiring scheduler lock:', error);
+  }
+}
+
 /**
  * Starts the blog post scheduler
  * Runs every minute to check for posts ready to publish
@@ -42,9 +57,9 @@ export function startBlogScheduler(): void {
 
   // Run every minute
   cron.schedule('* * * * *', async () => {
-    await publishScheduledPosts();
+    await runBlogScheduler();
   });
 
   // Also run immediately on startup
-  publishScheduledPosts();
+  runBlogScheduler();
 }
@@ -0,0 +1,88 @@
+import { db } from '../lib/db.js';
+import { createNotification } from '../routes/notifications.js';
+import { Campaign } from '../types/index.js';
+
+export type CampaignCompleteWhen = 'all_received' | 'all_resolved';
+
+export const COMPLETE_WHEN_OPTIONS: CampaignCompleteWhen[] = ['all_received', 'all_resolved'];
+
+/**
+ * Complete an active campaign if every client is done, and tell the accountant
+ *
+ * "Done" is received, or received or failed for campaigns set to all_resolved. The
+ * summary stats are recorded on the campaign in the same update, and the status
+ * check makes sure only one caller completes (and notifies) a campaign.
+ * Returns the completed campaign, or null if it isn't finished yet.
+ */
+export async function completeCampaignIfDone(campaignId: string): Promise<Campaign | null> {
+  const result = await db.query<Campaign & { clients_total: number; clients_received: number }>(
+    `WITH counts AS (
+       SELECT COUNT(*)::int as total,
+              COUNT(*) FILTER (WHERE status = 'received')::int as received,
+              COUNT(*) FILTER (WHERE status = 'failed')::int as failed
+       FROM campaign_clients
+       WHERE campaign_id = $1
+     )
+     UPDATE campaigns camp
+     SET status = 'completed',
+         completed_at = NOW(),
+         clients_total = counts.total,
+         clients_received = counts.received,
+         clients_failed = counts.failed,
+         success_rate = ROUND(counts.received * 100.0 / counts.total, 2)
+     FROM counts
+     WHERE camp.id = $1
+       AND camp.status = 'active'
+       AND counts.total > 0
+       AND (
+         counts.received = counts.total
+         OR (camp.complete_when = 'all_resolved' AND counts.received + counts.failed = counts.total)
+       )
+     RETURNING camp.*`,
+    [campaignId]
+  );
+
+  const campaign = result.rows[0];
+  if (!campaign) {
+    return null;
+  }
+
+  await createNotification(
+    campaign.accountant_id,
+    'campaign_complete',
+    'Campaign Complete',
+    `"${campaign.name}" is complete - ${campaign.clients_received} of ${campaign.clients_total} clients sent their documents`,
+    undefined,
+    campaign.name,
+    { successCount: campaign.clients_received, totalCount: campaign.clients_total }
+  );
+
+  console.log(`🏁 Campaign "${campaign.name}" completed (${campaign.clients_received}/${campaign.clients_total} received)`);
+  return campaign;
+}
+
+/**
+ * Complete any active campaign that's already finished
+ * Catches campaigns that finished without going through one of the status changes
+ * that check for completion (e.g. existing campaigns, or clients removed from a campaign).
+ */
+export async function completeFinishedCampaigns(): Promise<number> {
+  const result = await db.query<{ id: string }>(
+    `SELECT camp.id
+     FROM campaigns camp
+     JOIN campaign_clients cc ON cc.campaign_id = camp.id
+     WHERE camp.status = 'active'
+     GROUP BY camp.id, camp.complete_when
+     HAVING COUNT(*) FILTER (WHERE cc.status = 'received') = COUNT(*)
+         OR (camp.complete_when = 'all_resolved' AND COUNT(*) FILTER (WHERE cc.status IN ('received', 'failed')) = COUNT(*))`
+  );
+
+  let completed = 0;
+  for (const { id } of result.rows) {
+    if (await completeCampaignIfDone(id)) {
+      completed++;
+    }
+  }
+
+  return completed;
+}
@@ -0,0 +1,305 @@
+import { db } from '../lib/db.js';
+import { detectDocumentType, normalizeDocumentType } from './campaign-resolution.js';
+import { CampaignItem, CampaignClientItem } from '../types/index.js';
+
+export type CampaignItemInput = Pick<CampaignItem, 'document_type' | 'label' | 'required'>;
+
+export type CampaignItemStatus = CampaignClientItem['status'];
+
+export const MAX_CAMPAIGN_ITEMS = 10;
+
+const ITEM_STATUSES: CampaignItemStatus[] = ['pending', 'awaiting_review', 'received'];
+
+/**
+ * A campaign client's checklist: every campaign item with the client's status for it
+ */
+export type ClientChecklistItem = CampaignItem & {
+  status: CampaignItemStatus;
+  received_at: Date | null;
+};
+
+/**
+ * Default label for a document type, e.g. "bank_statement" -> "bank statement"
+ */
+function labelForDocumentType(documentType: string): string {
+  return documentType.replace(/_/g, ' ');
+}
+
+/**
+ * The single-item checklist for a campaign that only asks for one document type
+ */
+export function itemsForDocumentType(documentType: string): CampaignItemInput[] {
+  return [{ document_type: documentType, label: labelForDocumentType(documentType), required: true }];
+}
+
+/**
+ * Validate a campaign checklist from a request body
+ * Each item is { document_type, label?, required? }; document types are unique per campaign.
+ */
+export function validateCampaignItems(input: unknown): { items: CampaignItemInput[] } | { error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'items must be a non-empty array' };
+  }
+  if (input.length > MAX_CAMPAIGN_ITEMS) {
+    return { error: `A campaign can have at most ${MAX_CAMPAIGN_ITEMS} items` };
+  }
+
+  const items: CampaignItemInput[] = [];
+  const seen = new Set<string>();
+
+  for (const [index, raw] of input.entries()) {
+    const label = `Item ${index + 1}`;
+
+    if (!raw || typeof raw !== 'object') {
+      return { error: `${label}: must be an object` };
+    }
+
+    const { document_type, label: itemLabel, required = true } = raw as Record<string, unknown>;
+
+    if (typeof document_type !== 'string' || !document_type.trim()) {
+      return { error: `${label}: document_type is required` };
+    }
+
+    const documentType = normalizeDocumentType(document_type);
+    if (documentType.length > 50) {
+      return { error: `${label}: document_type is too long` };
+    }
+    if (seen.has(documentType)) {
+      return { error: `${label}: ${documentType} is already on the checklist` };
+    }
+    seen.add(documentType);
+
+    if (itemLabel !== undefined && itemLabel !== null && (typeof itemLabel !== 'string' || !itemLabel.trim())) {
+      return { error: `${label}: label must be text` };
+    }
+    if (typeof required !== 'boolean') {
+      return { error: `${label}: required must be true or false` };
+    }
+
+    items.push({
+      document_type: documentType,
+      label: typeof itemLabel === 'string' ? itemLabel.trim() : labelForDocumentType(documentType),
+      required,
+    });
+  }
+
+  if (!items.some(item => item.required)) {
+    return { error: 'At least one item must be required' };
+  }
+
+  return { items };
+}
+
+/**
+ * Load a campaign's checklist in order
+ */
+export async function getCampaignItems(campaignId: string): Promise<CampaignItem[]> {
+  const result = await db.query<CampaignItem>(
+    `SELECT * FROM campaign_items
+     WHERE campaign_id = $1
+     ORDER BY item_order`,
+    [campaignId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Replace a campaign's checklist
+ * Only used before the campaign starts, so there's no client progress to carry over.
+ */
+export async function setCampaignItems(campaignId: string, items: CampaignItemInput[]): Promise<CampaignItem[]> {
+  await db.query('DELETE FROM campaign_items WHERE campaign_id = $1', [campaignId]);
+
+  const values = items.map((_, index) =>
+    `($1, $${index * 3 + 2}, $${index * 3 + 3}, $${index * 3 + 4}, ${index + 1})`
+  ).join(', ');
+
+  const result = await db.query<CampaignItem>(
+    `INSERT INTO campaign_items (campaign_id, document_type, label, required, item_order)
+     VALUES ${values}
+     RETURNING *`,
+    [campaignId, ...items.flatMap(item => [item.document_type, item.label, item.required])]
+  );
+
+  return result.rows.sort((a, b) => a.item_order - b.item_order);
+}
+
+/**
+ * A campaign client's checklist with per-item status
+ */
+export async function getClientChecklist(campaignClientId: string): Promise<ClientChecklistItem[]> {
+  const result = await db.query<ClientChecklistItem>(
+    `SELECT ci.*, COALESCE(cci.status, 'pending') as status, cci.received_at
+     FROM campaign_clients cc
+     JOIN campaign_items ci ON ci.campaign_id = cc.campaign_id
+     LEFT JOIN campaign_client_items cci ON cci.campaign_item_id = ci.id AND cci.campaign_client_id = cc.id
+     WHERE cc.id = $1
+     ORDER BY ci.item_order`,
+    [campaignClientId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Join labels into a list for a message, e.g. "bank statement, P60 and mileage log"
+ */
+export function formatItemList(labels: string[]): string {
+  if (labels.length <= 1) {
+    return labels[0] || '';
+  }
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
+
+/**
+ * What to ask a client for, e.g. "January 2026 bank statement and P60"
+ * Lists only the required items they haven't sent yet (not ones waiting for review),
+ * falling back to the campaign's document type if there's nothing outstanding.
+ */
+export async function getDocumentDescription(
+  campaignClientId: string,
+  period: string,
+  documentType: string
+): Promise<string> {
+  const outstanding = (await getClientChecklist(campaignClientId))
+    .filter(item => item.required && item.status === 'pending')
+    .map(item => item.label);
+
+  return outstanding.length > 0
+    ? `${period} ${formatItemList(outstanding)}`
+    : `${period} ${documentType.replace(/_/g, ' ')}`;
+}
+
+/**
+ * Pick the checklist item a document is for
+ *
+ * 1. A campaign with one item takes everything
+ * 2. The one item whose label or document type the message mentions (e.g. "here's my P60")
+ * 3. The document type detected from the message text or file type, if it's on the checklist
+ * 4. The client's only outstanding item
+ * Returns null if it can't tell - the accountant picks the item when reviewing.
+ */
+export async function matchDocumentToItem(
+  campaignClientId: string,
+  messageBody: string,
+  contentType: string | null
+): Promise<ClientChecklistItem | null> {
+  const checklist = await getClientChecklist(campaignClientId);
+
+  if (checklist.length <= 1) {
+    return checklist[0] || null;
+  }
+
+  const text = messageBody.toLowerCase();
+  const mentioned = checklist.filter(item =>
+    [item.label, item.document_type.replace(/_/g, ' ')].some(name => {
+      const escaped = name.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`\\b${escaped}s?\\b`).test(text);
+    })
+  );
+  if (mentioned.length === 1) {
+    return mentioned[0];
+  }
+
+  const detectedType = detectDocumentType(messageBody, contentType ? [contentType] : []);
+  const detected = detectedType
+    ? checklist.find(item => normalizeDocumentType(item.document_type) === detectedType)
+    : undefined;
+  if (detected) {
+    return detected;
+  }
+
+  const outstanding = checklist.filter(item => item.status === 'pending');
+  return outstanding.length === 1 ? outstanding[0] : null;
+}
+
+/**
+ * Set a client's status for one checklist item
+ */
+export async function setClientItemStatus(
+  campaignClientId: string,
+  campaignItemId: string,
+  status: CampaignItemStatus
+): Promise<void> {
+  await db.query(
+    `INSERT INTO campaign_client_items (campaign_client_id, campaign_item_id, status, received_at)
+     VALUES ($1, $2, $3, CASE WHEN $3 = 'received' THEN NOW() END)
+     ON CONFLICT (campaign_client_id, campaign_item_id) DO UPDATE
+     SET status = EXCLUDED.status,
+         received_at = CASE WHEN EXCLUDED.status = 'received'
+                            THEN COALESCE(campaign_client_items.received_at, NOW()) END,
+         updated_at = NOW()`,
+    [campaignClientId, campaignItemId, status]
+  );
+}
+
+/**
+ * Recalculate a client's status for one item from the documents matched to it
+ * An accepted document means received, one waiting for review means awaiting_review.
+ */
+export async function refreshClientItemStatus(campaignClientId: string, campaignItemId: string): Promise<void> {
+  const result = await db.query<{ accepted: boolean; in_review: boolean }>(
+    `SELECT BOOL_OR(d.review_status = 'accepted') as accepted,
+            BOOL_OR(d.review_status = 'awaiting_review') as in_review
+     FROM campaign_clients cc
+     JOIN documents d ON d.campaign_id = cc.campaign_id AND d.client_id = cc.client_id
+     WHERE cc.id = $1 AND d.campaign_item_id = $2`,
+    [campaignClientId, campaignItemId]
+  );
+
+  const { accepted, in_review } = result.rows[0] || {};
+  await setClientItemStatus(
+    campaignClientId,
+    campaignItemId,
+    accepted ? 'received' : in_review ? 'awaiting_review' : 'pending'
+  );
+}
+
+/**
+ * Recalculate a campaign client's overall status from their checklist
+ *
+ * received once every required item is received; pending while any required item hasn't
+ * been sent, so reminders keep chasing it; awaiting_review once everything outstanding is
+ * being reviewed. A client flagged as failed stays failed until they're received.
+ * Returns the new status, or null if the campaign has no checklist.
+ */
+export async function refreshClientStatus(campaignClientId: string): Promise<string | null> {
+  const result = await db.query<{ status: string }>(
+    `WITH checklist AS (
+       SELECT ci.required, COALESCE(cci.status, 'pending') as status
+       FROM campaign_clients cc
+       JOIN campaign_items ci ON ci.campaign_id = cc.campaign_id
+       LEFT JOIN campaign_client_items cci ON cci.campaign_item_id = ci.id AND cci.campaign_client_id = cc.id
+       WHERE cc.id = $1
+     ),
+     summary AS (
+       SELECT COUNT(*) FILTER (WHERE required AND status != 'received') as outstanding,
+              COUNT(*) FILTER (WHERE required AND status = 'pending') as not_sent,
+              COUNT(*) as total
+       FROM checklist
+     )
+     UPDATE campaign_clients cc
+     SET status = CASE
+           WHEN summary.outstanding = 0 THEN 'received'
+           WHEN cc.status = 'failed' THEN 'failed'
+           WHEN summary.not_sent > 0 THEN 'pending'
+           ELSE 'awaiting_review'
+         END,
+         received_at = CASE WHEN summary.outstanding = 0 THEN COALESCE(cc.received_at, NOW()) END,
+         updated_at = NOW()
+     FROM summary
+     WHERE cc.id = $1 AND summary.total > 0
+     RETURNING cc.status`,
+    [campaignClientId]
+  );
+
+  return result.rows[0]?.status || null;
+}
+
+/**
+ * Check an item status from a request body
+ */
+export function isCampaignItemStatus(status: unknown): status is CampaignItemStatus {
+  return ITEM_STATUSES.includes(status as CampaignItemStatus);
+}
@@ -0,0 +1,332 @@
+import { db } from '../lib/db.js';
+import { sendDocumentRequest } from '../lib/twilio.js';
+import { enqueueJob, registerJobHandler, Job } from './job-queue.js';
+import {
+  ContactPreferences,
+  CONTACT_PREFERENCE_COLUMNS,
+  getFirstMessageDeferReason,
+  getNextContactTime,
+  recordDeferral,
+  clearDeferral,
+} from './contact-preferences.js';
+import { SuppressedNumberError } from './suppression.js';
+import { getDocumentDescription } from './campaign-items.js';
+
+export interface SendFirstMessageJob {
+  campaignClientId: string;
+}
+
+/**
+ * Where a campaign's first messages have got to
+ * queued = waiting for its send slot, deferred = held until the client can be contacted,
+ * notQueued = start was interrupted before this client. complete once none of those are left.
+ */
+export interface CampaignStartProgress {
+  total: number;
+  sent: number;
+  queued: number;
+  deferred: number;
+  failed: number;
+  notQueued: number;
+  complete: boolean;
+  errors: Array<{ clientName: string; error: string }>;
+}
+
+const DEFAULT_SEND_RATE_PER_MINUTE = 30;
+
+// A failed first message is retried (with backoff) before it's reported as failed
+const FIRST_MESSAGE_MAX_ATTEMPTS = 3;
+
+// Every campaign's first messages go out from the shared number, so they share one rate
+const FIRST_MESSAGE_SLOTS = 'first_messages';
+
+/**
+ * First messages per minute when a campaign starts (CAMPAIGN_SEND_RATE_PER_MINUTE)
+ */
+export function getSendRatePerMinute(): number {
+  const rate = parseInt(process.env.CAMPAIGN_SEND_RATE_PER_MINUTE || '', 10);
+  return rate > 0 ? rate : DEFAULT_SEND_RATE_PER_MINUTE;
+}
+
+/**
+ * Reserve the next first-message send slot, across every campaign
+ * Returns how many seconds from now the slot is.
+ */
+async function reserveSendSlot(secondsBetweenSends: number): Promise<number> {
+  const result = await db.query<{ delay_seconds: string }>(
+    `INSERT INTO send_rate_slots (name, next_slot_at)
+     VALUES ($1, NOW() + $2::float8 * INTERVAL '1 second')
+     ON CONFLICT (name) DO UPDATE
+     SET next_slot_at = GREATEST(send_rate_slots.next_slot_at, NOW()) + $2::float8 * INTERVAL '1 second'
+     RETURNING EXTRACT(EPOCH FROM next_slot_at - NOW()) - $2::float8 as delay_seconds`,
+    [FIRST_MESSAGE_SLOTS, secondsBetweenSends]
+  );
+
+  return Math.max(0, Math.ceil(Number(result.rows[0].delay_seconds)));
+}
+
+/**
+ * Queue first messages for campaign clients, spaced out to the send rate
+ *
+ * Each client is claimed (first_message_queued_at) before its job is queued, so two
+ * starts or resumes can't queue the same client. Send slots are shared by all campaigns,
+ * so a start queues behind any sends already waiting. Returns how many were queued and
+ * how long until the last of them goes out.
+ */
+export async function queueFirstMessages(
+  campaignClientIds: string[]
+): Promise<{ queued: number; lastSendSeconds: number }> {
+  const secondsBetweenSends = 60 / getSendRatePerMinute();
+  let queued = 0;
+  let lastSendSeconds = 0;
+
+  for (const campaignClientId of campaignClientIds) {
+    const claim = await db.query(
+      `UPDATE campaign_clients
+       SET first_message_queued_at = NOW(), first_message_error = NULL
+       WHERE id = $1 AND first_message_sent_at IS NULL
+       RETURNING id`,
+      [campaignClientId]
+    );
+
+    if (claim.rows.length === 0) {
+      continue;
+    }
+
+    lastSendSeconds = await reserveSendSlot(secondsBetweenSends);
+    await enqueueJob<SendFirstMessageJob>(
+      'send_first_message',
+      { campaignClientId },
+      { delaySeconds: lastSendSeconds, maxAttempts: FIRST_MESSAGE_MAX_ATTEMPTS }
+    );
+    queued++;
+  }
+
+  return { queued, lastSendSeconds };
+}
+
+/**
+ * Re-queue an active campaign's first messages that haven't gone out and aren't on their way
+ *
+ * Picks up clients whose first_message_sent_at is still null and who have no queued or
+ * running send job: the start was interrupted before them, or their send failed.
+ */
+export async function resumeFirstMessages(campaignId: string): Promise<number> {
+  const result = await db.query<{ id: string }>(
+    `SELECT cc.id
+     FROM campaign_clients cc
+     JOIN campaigns camp ON cc.campaign_id = camp.id
+     WHERE cc.campaign_id = $1
+       AND camp.status = 'active'
+       AND cc.first_message_sent_at IS NULL
+       AND cc.status NOT IN ('received', 'failed')
+       AND NOT EXISTS (
+         SELECT 1 FROM jobs j
+         WHERE j.type = 'send_first_message'
+           AND j.status IN ('queued', 'running')
+           AND j.payload->>'campaignClientId' = cc.id::text
+       )
+     ORDER BY cc.created_at`,
+    [campaignId]
+  );
+
+  const { queued } = await queueFirstMessages(result.rows.map(row => row.id));
+  return queued;
+}
+
+/**
+ * Resume campaign starts that were cut off before every client was queued (e.g. a crash)
+ * Clients already claimed are left alone; their jobs are durable in the queue.
+ */
+export async function resumeInterruptedStarts(): Promise<number> {
+  const result = await db.query<{ id: string }>(
+    `SELECT cc.id
+     FROM campaign_clients cc
+     JOIN campaigns camp ON cc.campaign_id = camp.id
+     WHERE camp.status = 'active'
+       AND cc.first_message_sent_at IS NULL
+       AND cc.first_message_queued_at IS NULL
+       AND cc.status NOT IN ('received', 'failed')
+     ORDER BY cc.created_at`
+  );
+
+  const { queued } = await queueFirstMessages(result.rows.map(row => row.id));
+  if (queued > 0) {
+    console.log(`🔁 Resumed ${queued} first messages from interrupted campaign starts`);
+  }
+  return queued;
+}
+
+/**
+ * Progress of a campaign's first messages
+ */
+export async function getCampaignStartProgress(campaignId: string): Promise<CampaignStartProgress> {
+  const result = await db.query<{ client_name: string } & Record<
+    'first_message_sent_at' | 'first_message_queued_at' | 'first_message_error' | 'deferred_reason',
+    string | null
+  >>(
+    `SELECT c.name as client_name, cc.first_message_sent_at, cc.first_message_queued_at,
+            cc.first_message_error, cc.deferred_reason
+     FROM campaign_clients cc
+     JOIN clients c ON cc.client_id = c.id
+     WHERE cc.campaign_id = $1
+     ORDER BY c.name`,
+    [campaignId]
+  );
+
+  const progress: CampaignStartProgress = {
+    total: result.rows.length,
+    sent: 0,
+    queued: 0,
+    deferred: 0,
+    failed: 0,
+    notQueued: 0,
+    complete: false,
+    errors: [],
+  };
+
+  for (const row of result.rows) {
+    if (row.first_message_sent_at) {
+      progress.sent++;
+    } else if (row.first_message_error) {
+      progress.failed++;
+      progress.errors.push({ clientName: row.client_name, error: row.first_message_error });
+    } else if (!row.first_message_queued_at) {
+      progress.notQueued++;
+    } else if (row.deferred_reason) {
+      progress.deferred++;
+    } else {
+      progress.queued++;
+    }
+  }
+
+  progress.complete = progress.queued === 0 && progress.deferred === 0 && progress.notQueued === 0;
+  return progress;
+}
+
+type FirstMessageTarget = ContactPreferences & {
+  campaign_client_id: string;
+  first_message_sent_at: Date | null;
+  campaign_id: string;
+  campaign_status: string;
+  document_type: string;
+  period: string;
+  timezone: string;
+  accountant_id: string;
+  practice_name: string | null;
+  client_id: string;
+  client_name: string;
+  client_phone: string;
+};
+
+/**
+ * Hold a campaign's first message back until the client can be contacted
+ * Records the reason on the campaign client and queues the send for the next allowed time.
+ */
+export async function deferFirstMessage(
+  campaignClientId: string,
+  reason: string,
+  sendAt: Date
+): Promise<void> {
+  await recordDeferral(campaignClientId, reason);
+
+  const delaySeconds = Math.max(0, Math.ceil((sendAt.getTime() - Date.now()) / 1000));
+  await enqueueJob<SendFirstMessageJob>(
+    'send_first_message',
+    { campaignClientId },
+    { delaySeconds, maxAttempts: FIRST_MESSAGE_MAX_ATTEMPTS }
+  );
+}
+
+async function recordFirstMessageError(campaignClientId: string, error: string): Promise<void> {
+  await db.query(
+    `UPDATE campaign_clients
+     SET first_message_error = $2
+     WHERE id = $1`,
+    [campaignClientId, error]
+  );
+}
+
+/**
+ * Send a campaign's first message to one client, if they still haven't had one
+ * Queued by campaign start (spaced to the send rate) and again whenever the send is deferred.
+ */
+async function handleSendFirstMessage(payload: SendFirstMessageJob, job: Job<SendFirstMessageJob>): Promise<void> {
+  const result = await db.query<FirstMessageTarget>(
+    `SELECT cc.id as campaign_client_id, cc.first_message_sent_at,
+            camp.id as campaign_id, camp.status as campaign_status, camp.document_type, camp.period,
+            COALESCE(camp.reminder_timezone, acc.timezone) as timezone,
+            acc.id as accountant_id, acc.practice_name,
+            c.id as client_id, c.name as client_name, c.phone as client_phone,
+            ${CONTACT_PREFERENCE_COLUMNS}
+     FROM campaign_clients cc
+     JOIN campaigns camp ON cc.campaign_id = camp.id
+     JOIN accountants acc ON camp.accountant_id = acc.id
+     JOIN clients c ON cc.client_id = c.id
+     WHERE cc.id = $1`,
+    [payload.campaignClientId]
+  );
+
+  const target = result.rows[0];
+
+  if (!target || target.first_message_sent_at || target.campaign_status !== 'active') {
+    console.log(`⏭️ First message for campaign client ${payload.campaignClientId} no longer needed`);
+    return;
+  }
+
+  // Preferences may have changed since the send was queued
+  const now = new Date();
+  const deferReason = getFirstMessageDeferReason(target, target.timezone, now);
+  if (deferReason) {
+    console.log(`⏸️ First message to ${target.client_name} deferred again: ${deferReason}`);
+    await deferFirstMessage(target.campaign_client_id, deferReason, getNextContactTime(target, target.timezone, now));
+    return;
+  }
+
+  const documentDescription = await getDocumentDescription(target.campaign_client_id, target.period, target.document_type);
+
+  try {
+    await sendDocumentRequest(
+      target.client_phone,
+      target.client_name,
+      target.practice_name || 'your accountant',
+      documentDescription,
+      target.accountant_id,
+      target.client_id,
+      target.campaign_id,
+      target.preferred_language
+    );
+  } catch (error) {
+    // Retrying won't help once the client has opted out
+    if (error instanceof SuppressedNumberError) {
+      console.log(`🚫 First message to ${target.client_name} dropped - opted out of messages`);
+      await recordFirstMessageError(target.campaign_client_id, 'Client has opted out of messages');
+      return;
+    }
+
+    if (job.attempts >= job.max_attempts) {
+      await recordFirstMessageError(
+        target.campaign_client_id,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+    throw error;
+  }
+
+  await db.query(
+    `UPDATE campaign_clients
+     SET first_message_sent_at = NOW(), status = 'pending', first_message_error = NULL
+     WHERE id = $1`,
+    [target.campaign_client_id]
+  );
+  await clearDeferral(target.campaign_client_id);
+
+  console.log(`✅ First message sent to ${target.client_name} (${target.client_phone})`);
+}
+
+/**
+ * Register campaign job handlers with the queue
+ */
+export function registerCampaignJobs(): void {
+  registerJobHandler('send_first_message', handleSendFirstMessage);
+}
@@ -0,0 +1,154 @@
+import { db } from '../lib/db.js';
+import { Campaign, Client } from '../types/index.js';
+
+export type CampaignCandidate = Campaign & {
+  campaign_client_id: string;
+  campaign_client_status: string;
+  item_types: string[];
+};
+
+/**
+ * Outcome of matching an inbound message to one of the client's active campaigns
+ * - resolved: a single campaign clearly fits
+ * - ambiguous: several campaigns fit equally well - the accountant has to triage
+ * - none: the client isn't in any active campaign
+ */
+export type CampaignResolution =
+  | { type: 'resolved'; campaign: CampaignCandidate; reason: string }
+  | { type: 'ambiguous'; candidates: CampaignCandidate[] }
+  | { type: 'none' };
+
+// Keywords that identify a document type from the message text or MIME type
+const DOCUMENT_TYPE_KEYWORDS: Record<string, string[]> = {
+  bank_statement: ['bank', 'statement', 'barclays', 'hsbc', 'lloyds', 'natwest', 'monzo', 'starling', 'santander'],
+  vat_return: ['vat'],
+  payroll: ['payroll', 'payslip', 'p60', 'p45', 'p11d'],
+  receipts: ['receipt', 'receipts', 'invoice', 'invoices', 'expense', 'expenses'],
+  tax_return: ['tax return', 'self assessment', 'sa302', 'utr'],
+  mileage_log: ['mileage', 'miles'],
+};
+
+// Scoring weights - a document type match outweighs conversation recency
+const DOCUMENT_TYPE_MATCH_SCORE = 3;
+const RECENT_OUTBOUND_SCORE = 2;
+
+// Only outbound messages this recent count as "the conversation the client is replying to"
+const RECENT_OUTBOUND_WINDOW_DAYS = 14;
+
+/**
+ * Detect the document type a client is sending from the message text and file type
+ * Returns null when nothing identifies it
+ */
+export function detectDocumentType(messageBody: string, contentTypes: string[]): string | null {
+  const text = messageBody.toLowerCase();
+
+  for (const [documentType, keywords] of Object.entries(DOCUMENT_TYPE_KEYWORDS)) {
+    if (keywords.some(keyword => new RegExp(`\\b${keyword}\\b`).test(text))) {
+      return documentType;
+    }
+  }
+
+  // Spreadsheets/CSVs are almost always bank exports
+  if (contentTypes.some(type => type.includes('csv') || type.includes('spreadsheet') || type.includes('excel'))) {
+    return 'bank_statement';
+  }
+
+  return null;
+}
+
+/**
+ * Normalise a campaign document_type ("Bank Statement", "bank_statement") for comparison
+ */
+export function normalizeDocumentType(documentType: string): string {
+  return documentType.toLowerCase().trim().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Pick the campaign an inbound message belongs to
+ *
+ * 1. Only active campaigns the client is part of are considered
+ * 2. Campaigns still waiting on this client (pending) win over ones already received/failed
+ * 3. Remaining ties are scored on the detected document type and on which campaign
+ *    last messaged the client
+ */
+export async function resolveCampaignForMessage(
+  client: Client,
+  messageBody: string,
+  contentTypes: string[]
+): Promise<CampaignResolution> {
+  const candidatesResult = await db.query<CampaignCandidate>(
+    `SELECT c.*, cc.id as campaign_client_id, cc.status as campaign_client_status,
+            ARRAY(SELECT ci.document_type FROM campaign_items ci WHERE ci.campaign_id = c.id) as item_types
+     FROM campaigns c
+     JOIN campaign_clients cc ON c.id = cc.campaign_id
+     WHERE cc.client_id = $1 AND c.status = 'active'
+     ORDER BY c.created_at DESC`,
+    [client.id]
+  );
+
+  const allCandidates = candidatesResult.rows;
+
+  if (allCandidates.length === 0) {
+    return { type: 'none' };
+  }
+
+  if (allCandidates.length === 1) {
+    return { type: 'resolved', campaign: allCandidates[0], reason: 'only active campaign' };
+  }
+
+  const pending = allCandidates.filter(candidate => candidate.campaign_client_status === 'pending');
+
+  if (pending.length === 1) {
+    return { type: 'resolved', campaign: pending[0], reason: 'only campaign still pending' };
+  }
+
+  const candidates = pending.length > 0 ? pending : allCandidates;
+
+  // Which campaign did we message this client about most recently?
+  const recentOutbound = await db.query<{ campaign_id: string }>(
+    `SELECT campaign_id
+     FROM messages
+     WHERE client_id = $1
+       AND direction = 'outbound'
+       AND campaign_id = ANY($2)
+       AND created_at >= NOW() - ($3 || ' days')::INTERVAL
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [client.id, candidates.map(candidate => candidate.id), RECENT_OUTBOUND_WINDOW_DAYS]
+  );
+  const recentCampaignId = recentOutbound.rows[0]?.campaign_id || null;
+
+  const detectedType = detectDocumentType(messageBody, contentTypes);
+
+  // A campaign asks for a type if it's the main document type or on its checklist
+  const asksFor = (candidate: CampaignCandidate): boolean =>
+    !!detectedType && [candidate.document_type || '', ...candidate.item_types]
+      .some(documentType => normalizeDocumentType(documentType) === detectedType);
+
+  const scored = candidates.map(candidate => {
+    let score = 0;
+    if (asksFor(candidate)) {
+      score += DOCUMENT_TYPE_MATCH_SCORE;
+    }
+    if (candidate.id === recentCampaignId) {
+      score += RECENT_OUTBOUND_SCORE;
+    }
+    return { candidate, score };
+  });
+
+  const topScore = Math.max(...scored.map(entry => entry.score));
+  const leaders = scored.filter(entry => entry.score === topScore);
+
+  if (topScore > 0 && leaders.length === 1) {
+    const reasons = [
+      asksFor(leaders[0].candidate)
+        ? `document type "${detectedType}"`
+        : null,
+      leaders[0].candidate.id === recentCampaignId ? 'most recent outbound message' : null,
+    ].filter(Boolean);
+
+    return { type: 'resolved', campaign: leaders[0].candidate, reason: reasons.join(' + ') };
+  }
+
+  return { type: 'ambiguous', candidates: leaders.map(entry => entry.candidate) };
+}
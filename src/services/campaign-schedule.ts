@@ -0,0 +1,172 @@
+import { db } from '../lib/db.js';
+import { enqueueJob, registerJobHandler, Job } from './job-queue.js';
+import { checkChaseLimit, startCampaign, StartCampaignError } from './campaign-start.js';
+import { createNotification } from '../routes/notifications.js';
+import { Campaign } from '../types/index.js';
+
+export interface StartScheduledCampaignJob {
+  campaignId: string;
+  scheduledStartAt: string; // ISO timestamp the job was queued for
+}
+
+/**
+ * Schedule (or reschedule) a draft campaign to start at `startAt`
+ *
+ * Runs the start checks that can fail up front (chase limit, clients present) so the
+ * accountant hears now rather than when it fires; they're checked again at start time.
+ * Each schedule queues its own job, and a job only starts the campaign if
+ * scheduled_start_at still matches, so rescheduling or cancelling retires older jobs.
+ */
+export async function scheduleCampaignStart(
+  accountantId: string,
+  campaignId: string,
+  startAt: Date
+): Promise<{ campaign: Campaign } | StartCampaignError> {
+  if (startAt.getTime() <= Date.now()) {
+    return { status: 400, error: 'scheduled_start_at must be in the future' };
+  }
+
+  const limit = await checkChaseLimit(accountantId);
+  if ('error' in limit) {
+    return limit;
+  }
+
+  const campaignResult = await db.query<Campaign & { client_count: string }>(
+    `SELECT camp.*, (SELECT COUNT(*) FROM campaign_clients cc WHERE cc.campaign_id = camp.id) as client_count
+     FROM campaigns camp
+     WHERE camp.id = $1 AND camp.accountant_id = $2`,
+    [campaignId, accountantId]
+  );
+
+  const existing = campaignResult.rows[0];
+  if (!existing) {
+    return { status: 404, error: 'Campaign not found' };
+  }
+  if (existing.status !== 'draft') {
+    return { status: 400, error: 'Campaign has already been started' };
+  }
+  if (parseInt(existing.client_count) === 0) {
+    return { status: 400, error: 'No clients in campaign' };
+  }
+
+  const result = await db.query<Campaign>(
+    `UPDATE campaigns
+     SET scheduled_start_at = $1
+     WHERE id = $2 AND accountant_id = $3 AND status = 'draft'
+     RETURNING *`,
+    [startAt, campaignId, accountantId]
+  );
+
+  if (result.rows.length === 0) {
+    return { status: 400, error: 'Campaign has already been started' };
+  }
+
+  const delaySeconds = Math.max(0, Math.ceil((startAt.getTime() - Date.now()) / 1000));
+  await enqueueJob<StartScheduledCampaignJob>(
+    'start_scheduled_campaign',
+    { campaignId, scheduledStartAt: startAt.toISOString() },
+    { delaySeconds, maxAttempts: 3 }
+  );
+
+  console.log(`🗓️ Campaign "${existing.name}" scheduled to start at ${startAt.toISOString()}`);
+
+  return { campaign: result.rows[0] };
+}
+
+/**
+ * Cancel a draft campaign's scheduled start
+ * Returns null if the campaign isn't found or has no start scheduled.
+ */
+export async function cancelScheduledStart(accountantId: string, campaignId: string): Promise<Campaign | null> {
+  const result = await db.query<Campaign>(
+    `UPDATE campaigns
+     SET scheduled_start_at = NULL
+     WHERE id = $1 AND accountant_id = $2 AND status = 'draft' AND scheduled_start_at IS NOT NULL
+     RETURNING *`,
+    [campaignId, accountantId]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Clear a schedule that didn't lead to a start and tell the accountant why
+ */
+async function reportScheduledStartFailure(campaign: Campaign, scheduledStartAt: string, error: string): Promise<void> {
+  await db.query(
+    `UPDATE campaigns
+     SET scheduled_start_at = NULL
+     WHERE id = $1 AND status = 'draft' AND scheduled_start_at = $2`,
+    [campaign.id, scheduledStartAt]
+  );
+
+  await createNotification(
+    campaign.accountant_id,
+    'campaign_start_failed',
+    'Scheduled Campaign Not Started',
+    `"${campaign.name}" couldn't start as scheduled (${error}). It is still a draft and can be started or rescheduled.`,
+    undefined,
+    campaign.name
+  );
+}
+
+/**
+ * Start a scheduled campaign, unless it was rescheduled, cancelled or started by hand
+ *
+ * The schedule is only cleared by the draft -> active switch itself, so a start that
+ * throws (e.g. a database error) leaves it in place for the job's retry. A retry after a
+ * successful start finds the campaign active and does nothing. The accountant is notified
+ * either way, since nobody is watching when it fires.
+ */
+async function handleStartScheduledCampaign(
+  payload: StartScheduledCampaignJob,
+  job: Job<StartScheduledCampaignJob>
+): Promise<void> {
+  const pending = await db.query<Campaign>(
+    `SELECT * FROM campaigns
+     WHERE id = $1 AND status = 'draft' AND scheduled_start_at = $2`,
+    [payload.campaignId, payload.scheduledStartAt]
+  );
+
+  const campaign = pending.rows[0];
+  if (!campaign) {
+    console.log(`⏭️ Scheduled start for campaign ${payload.campaignId} no longer needed`);
+    return;
+  }
+
+  console.log(`🗓️ Starting scheduled campaign "${campaign.name}"`);
+
+  let outcome: Awaited<ReturnType<typeof startCampaign>>;
+  try {
+    outcome = await startCampaign(campaign.accountant_id, campaign.id);
+  } catch (error) {
+    // Out of retries: don't leave a schedule in the past that nothing will act on
+    if (job.attempts >= job.max_attempts) {
+      await reportScheduledStartFailure(campaign, payload.scheduledStartAt, 'an unexpected error');
+    }
+    throw error;
+  }
+
+  if ('error' in outcome) {
+    console.log(`⚠️ Scheduled campaign "${campaign.name}" couldn't start: ${outcome.error}`);
+    await reportScheduledStartFailure(campaign, payload.scheduledStartAt, outcome.error);
+    return;
+  }
+
+  const { results } = outcome;
+  await createNotification(
+    campaign.accountant_id,
+    'campaign_started',
+    'Scheduled Campaign Started',
+    `"${campaign.name}" started as scheduled. First messages to ${results.queued} of ${results.total} clients are on their way.`,
+    undefined,
+    campaign.name
+  );
+}
+
+/**
+ * Register the scheduled start job handler with the queue
+ */
+export function registerScheduledStartJobs(): void {
+  registerJobHandler('start_scheduled_campaign', handleStartScheduledCampaign);
+}
@@ -0,0 +1,186 @@
+import { db } from '../lib/db.js';
+import { getReminderSteps, describeReminderSteps } from './reminder-steps.js';
+import { queueFirstMessages, getSendRatePerMinute } from './campaign-jobs.js';
+import { Campaign } from '../types/index.js';
+
+/**
+ * What a start queued; the sends themselves are followed with getCampaignStartProgress
+ */
+export interface StartCampaignResults {
+  total: number;
+  queued: number;
+  ratePerMinute: number;
+  estimatedSeconds: number;
+}
+
+/**
+ * Why a campaign couldn't be started, with the HTTP status the API answers with
+ * `details` carries extra fields for the response (e.g. the free plan's chase usage).
+ */
+export interface StartCampaignError {
+  status: number;
+  error: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Check the free plan's chase limit before a campaign is started (or scheduled to start)
+ */
+export async function checkChaseLimit(
+  accountantId: string
+): Promise<{ accountant: { subscription_plan: string; chase_limit: number | null; chases_used: number } } | StartCampaignError> {
+  // Check subscription limits (for free plan)
+  const accountant = await db.query(
+    `SELECT subscription_plan, chase_limit, chases_used FROM accountants WHERE id = $1`,
+    [accountantId]
+  );
+
+  if (!accountant.rows[0]) {
+    return { status: 404, error: 'Accountant not found' };
+  }
+
+  const acc = accountant.rows[0];
+
+  // Enforce chase limit for free plan
+  if (acc.subscription_plan === 'free') {
+    const chaseLimit = acc.chase_limit || 3;
+    const chasesUsed = acc.chases_used || 0;
+
+    if (chasesUsed >= chaseLimit) {
+      return {
+        status: 403,
+        error: 'Chase limit reached on free plan',
+        details: { upgrade: true, chasesUsed, limit: chaseLimit }
+      };
+    }
+  }
+
+  return { accountant: acc };
+}
+
+/**
+ * Start a draft campaign: queue the first message to every client
+ *
+ * Enforces the free plan's chase limit, then queues one send job per client, spaced
+ * to the send rate. The jobs defer clients who can't be contacted yet (quiet hours,
+ * do-not-contact dates, preferred times) and skip opted-out numbers. If the process
+ * dies part-way, clients not yet queued are picked up by resumeInterruptedStarts.
+ * Used by the start endpoint, scheduled starts and recurring campaigns that start themselves.
+ */
+export async function startCampaign(
+  accountantId: string,
+  campaignId: string
+): Promise<{ results: StartCampaignResults } | StartCampaignError> {
+  const limit = await checkChaseLimit(accountantId);
+  if ('error' in limit) {
+    return limit;
+  }
+  const acc = limit.accountant;
+
+  // Get campaign details
+  const campaignResult = await db.query<Campaign>(
+    `SELECT * FROM campaigns
+     WHERE id = $1 AND accountant_id = $2`,
+    [campaignId, accountantId]
+  );
+
+  if (campaignResult.rows.length === 0) {
+    return { status: 404, error: 'Campaign not found' };
+  }
+
+  const campaign = campaignResult.rows[0];
+
+  if (campaign.status !== 'draft') {
+    return { status: 400, error: 'Campaign has already been started' };
+  }
+
+  // Get all clients in the campaign
+  const clientsResult = await db.query<{ campaign_client_id: string }>(
+    `SELECT cc.id as campaign_client_id
+     FROM campaign_clients cc
+     WHERE cc.campaign_id = $1
+     ORDER BY cc.created_at`,
+    [campaignId]
+  );
+
+  if (clientsResult.rows.length === 0) {
+    return { status: 400, error: 'No clients in campaign' };
+  }
+
+  // Only one start can move the campaign out of draft; the send jobs need it active
+  // (a pending scheduled start is dropped, in case it was started by hand)
+  const activated = await db.query(
+    `UPDATE campaigns
+     SET status = 'active', scheduled_start_at = NULL
+     WHERE id = $1 AND status = 'draft'
+     RETURNING id`,
+    [campaignId]
+  );
+
+  if (activated.rows.length === 0) {
+    return { status: 400, error: 'Campaign has already been started' };
+  }
+
+  // Increment chase counter for free plan users
+  if (acc.subscription_plan === 'free') {
+    await db.query(
+      'UPDATE accountants SET chases_used = chases_used + 1 WHERE id = $1',
+      [accountantId]
+    );
+    console.log(`📊 Free plan chase counter incremented: ${acc.chases_used + 1}/${acc.chase_limit || 3}`);
+  }
+
+  const ratePerMinute = getSendRatePerMinute();
+  console.log(`\n🚀 Starting campaign "${campaign.name}" (ID: ${campaignId})`);
+  console.log(`📊 Queueing first messages to ${clientsResult.rows.length} clients at ${ratePerMinute}/minute...\n`);
+
+  const { queued, lastSendSeconds } = await queueFirstMessages(clientsResult.rows.map(row => row.campaign_client_id));
+
+  const results: StartCampaignResults = {
+    total: clientsResult.rows.length,
+    queued,
+    ratePerMinute,
+    // Includes waiting behind sends other campaigns have already queued
+    estimatedSeconds: lastSendSeconds,
+  };
+
+  console.log(`\n📈 Campaign Start Summary:`);
+  console.log(`   Campaign: ${campaign.name}`);
+  console.log(`   Total Clients: ${results.total}`);
+  console.log(`   📤 Queued: ${results.queued} (all sent in ~${results.estimatedSeconds}s)`);
+  console.log(`   Campaign Status: active`);
+  console.log(`   Reminder Steps: ${describeReminderSteps(await getReminderSteps(campaignId))}`);
+  console.log(`   Send Time: ${campaign.reminder_send_time || '10:00'}\n`);
+
+  return { results };
+}
+
+/**
+ * Add clients to a draft or active campaign, skipping any already in it
+ *
+ * On an active campaign each new client's first message is queued straight away,
+ * which starts their reminder schedule once it's sent.
+ */
+export async function addClientsToCampaign(
+  campaign: Campaign,
+  clientIds: string[]
+): Promise<{ added: number; queued: number } | StartCampaignError> {
+  if (campaign.status !== 'draft' && campaign.status !== 'active') {
+    return { status: 400, error: `Clients can't be added to a ${campaign.status} campaign` };
+  }
+
+  const insertResult = await db.query<{ id: string }>(
+    `INSERT INTO campaign_clients (campaign_id, client_id)
+     SELECT $1, new_client.id FROM UNNEST($2::uuid[]) as new_client(id)
+     WHERE NOT EXISTS (
+       SELECT 1 FROM campaign_clients cc WHERE cc.campaign_id = $1 AND cc.client_id = new_client.id
+     )
+     RETURNING id`,
+    [campaign.id, clientIds]
+  );
+
+  const addedIds = insertResult.rows.map(row => row.id);
+  const queued = campaign.status === 'active' ? (await queueFirstMessages(addedIds)).queued : 0;
+
+  return { added: addedIds.length, queued };
+}
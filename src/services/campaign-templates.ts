@@ -0,0 +1,483 @@
+import { db, withAdvisoryLock } from '../lib/db.js';
+import cron from 'node-cron';
+import { parseCron, getNextCronRun } from '../lib/cron.js';
+import { DEFAULT_TIMEZONE, getZonedDateTime, isValidTimezone, parseSendTime } from '../lib/timezone.js';
+import { createNotification } from '../routes/notifications.js';
+import { ReminderStepInput, legacyReminderSteps, validateReminderSteps, setReminderSteps } from './reminder-steps.js';
+import { CampaignItemInput, validateCampaignItems, itemsForDocumentType, setCampaignItems } from './campaign-items.js';
+import { COMPLETE_WHEN_OPTIONS } from './campaign-completion.js';
+import { startCampaign, StartCampaignResults, StartCampaignError } from './campaign-start.js';
+import { Campaign, CampaignTemplate } from '../types/index.js';
+
+export type TemplateRecurrence = NonNullable<CampaignTemplate['recurrence']>;
+export type PeriodUnit = CampaignTemplate['period_unit'];
+
+export type CampaignTemplateInput = Omit<
+  CampaignTemplate,
+  'id' | 'accountant_id' | 'next_run_at' | 'last_run_at' | 'last_campaign_id' | 'created_at' | 'updated_at'
+>;
+
+const RECURRENCES: TemplateRecurrence[] = ['monthly', 'quarterly', 'cron'];
+const PERIOD_UNITS: PeriodUnit[] = ['month', 'quarter'];
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * Trim and lowercase a list of client tags, dropping blanks and duplicates
+ * Returns null if the input isn't an array of strings.
+ */
+export function normalizeTags(input: unknown): string[] | null {
+  if (!Array.isArray(input) || input.some(tag => typeof tag !== 'string')) {
+    return null;
+  }
+
+  return [...new Set(input.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Validate a template from a request body (POST and PUT both send the whole template)
+ *
+ * Monthly and quarterly recurrences take recurrence_day (1-28) and recurrence_time
+ * (HH:MM) and are stored as the equivalent cron expression.
+ */
+export async function validateCampaignTemplate(
+  accountantId: string,
+  body: Record<string, any>
+): Promise<{ template: CampaignTemplateInput } | { error: string }> {
+  const {
+    name,
+    campaign_name,
+    document_type = 'bank_statement',
+    items,
+    reminder_steps,
+    reminder_send_time = '10:00',
+    reminder_timezone = null,
+    business_days_only = false,
+    initial_message = null,
+    complete_when = 'all_received',
+    client_ids = [],
+    client_tags = [],
+    recurrence = null,
+    recurrence_day = 1,
+    recurrence_time = '09:00',
+    recurrence_cron = null,
+    period_offset = -1,
+    auto_start = false
+  } = body;
+
+  if (!name || typeof name !== 'string') {
+    return { error: 'Name is required' };
+  }
+
+  // A checklist of several documents, or just document_type; the first item is the campaign's main type
+  let checklist: CampaignItemInput[] = [];
+  if (items !== undefined && items !== null) {
+    const validation = validateCampaignItems(items);
+    if ('error' in validation) {
+      return { error: validation.error };
+    }
+    checklist = validation.items;
+  }
+
+  let steps: ReminderStepInput[] = legacyReminderSteps({});
+  if (reminder_steps !== undefined) {
+    const validation = validateReminderSteps(reminder_steps);
+    if ('error' in validation) {
+      return { error: validation.error };
+    }
+    steps = validation.steps;
+  }
+
+  if (!parseSendTime(reminder_send_time)) {
+    return { error: 'reminder_send_time must be HH:MM' };
+  }
+  if (reminder_timezone !== null && !isValidTimezone(reminder_timezone)) {
+    return { error: 'Invalid reminder_timezone' };
+  }
+  if (!COMPLETE_WHEN_OPTIONS.includes(complete_when)) {
+    return { error: `complete_when must be one of ${COMPLETE_WHEN_OPTIONS.join(', ')}` };
+  }
+
+  if (!Array.isArray(client_ids) || client_ids.some(id => typeof id !== 'string')) {
+    return { error: 'client_ids must be an array of client IDs' };
+  }
+  const tags = normalizeTags(client_tags);
+  if (!tags) {
+    return { error: 'client_tags must be an array of tags' };
+  }
+
+  if (client_ids.length > 0) {
+    const owned = await db.query(
+      `SELECT id FROM clients WHERE accountant_id = $1 AND id = ANY($2::uuid[])`,
+      [accountantId, client_ids]
+    );
+    if (owned.rows.length !== new Set(client_ids).size) {
+      return { error: 'One or more clients not found' };
+    }
+  }
+
+  if (recurrence !== null && !RECURRENCES.includes(recurrence)) {
+    return { error: `recurrence must be one of ${RECURRENCES.join(', ')} (or null)` };
+  }
+
+  let cronExpression: string | null = null;
+  if (recurrence === 'cron') {
+    if (!parseCron(recurrence_cron)) {
+      return { error: 'recurrence_cron must be a 5-field cron expression, e.g. "0 9 1 * *"' };
+    }
+    cronExpression = recurrence_cron.trim();
+  } else if (recurrence) {
+    const time = parseSendTime(recurrence_time);
+    if (!Number.isInteger(recurrence_day) || recurrence_day < 1 || recurrence_day > 28) {
+      return { error: 'recurrence_day must be between 1 and 28' };
+    }
+    if (!time) {
+      return { error: 'recurrence_time must be HH:MM' };
+    }
+    const months = recurrence === 'quarterly' ? '1,4,7,10' : '*';
+    cronExpression = `${time.minutes} ${time.hours} ${recurrence_day} ${months} *`;
+  }
+
+  const periodUnit = body.period_unit ?? (recurrence === 'quarterly' ? 'quarter' : 'month');
+  if (!PERIOD_UNITS.includes(periodUnit)) {
+    return { error: `period_unit must be one of ${PERIOD_UNITS.join(', ')}` };
+  }
+  if (!Number.isInteger(period_offset)) {
+    return { error: 'period_offset must be a whole number' };
+  }
+
+  return {
+    template: {
+      name,
+      campaign_name: campaign_name || `${name} - {period}`,
+      document_type: checklist[0]?.document_type || document_type,
+      items: checklist,
+      reminder_steps: steps,
+      reminder_send_time,
+      reminder_timezone,
+      business_days_only: business_days_only === true,
+      initial_message,
+      complete_when,
+      client_ids: [...new Set<string>(client_ids)],
+      client_tags: tags,
+      recurrence,
+      recurrence_cron: cronExpression,
+      period_unit: periodUnit,
+      period_offset,
+      auto_start: auto_start === true,
+    },
+  };
+}
+
+/**
+ * The timezone a template's schedule and periods use: its own, else the practice's
+ */
+export async function getTemplateTimezone(accountantId: string, template: Pick<CampaignTemplate, 'reminder_timezone'>): Promise<string> {
+  if (template.reminder_timezone) {
+    return template.reminder_timezone;
+  }
+
+  const result = await db.query<{ timezone: string }>(
+    `SELECT timezone FROM accountants WHERE id = $1`,
+    [accountantId]
+  );
+  const timezone = result.rows[0]?.timezone;
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * When a recurring template next creates a campaign, or null if it doesn't recur
+ */
+export function getNextTemplateRun(
+  template: Pick<CampaignTemplate, 'recurrence_cron'>,
+  timezone: string,
+  after: Date
+): Date | null {
+  const schedule = template.recurrence_cron ? parseCron(template.recurrence_cron) : null;
+  return schedule ? getNextCronRun(schedule, timezone, after) : null;
+}
+
+/**
+ * Period string for a campaign created at `at`, e.g. "January 2026" or "Q1 2026"
+ * The offset counts in the template's period unit (-1 = the previous month/quarter).
+ */
+export function formatTemplatePeriod(
+  template: Pick<CampaignTemplate, 'period_unit' | 'period_offset'>,
+  timezone: string,
+  at: Date
+): string {
+  const local = getZonedDateTime(at, timezone);
+
+  if (template.period_unit === 'quarter') {
+    const index = local.year * 4 + Math.floor((local.month - 1) / 3) + template.period_offset;
+    return `Q${(index % 4) + 1} ${Math.floor(index / 4)}`;
+  }
+
+  const index = local.year * 12 + (local.month - 1) + template.period_offset;
+  return `${MONTH_NAMES[index % 12]} ${Math.floor(index / 12)}`;
+}
+
+/**
+ * Save a new template, scheduling its first run if it recurs
+ */
+export async function createCampaignTemplate(accountantId: string, input: CampaignTemplateInput): Promise<CampaignTemplate> {
+  const timezone = await getTemplateTimezone(accountantId, input);
+  const nextRunAt = getNextTemplateRun(input, timezone, new Date());
+
+  const result = await db.query<CampaignTemplate>(
+    `INSERT INTO campaign_templates (
+      accountant_id, name, campaign_name, document_type, reminder_steps, reminder_send_time,
+      reminder_timezone, business_days_only, initial_message, complete_when, client_ids, client_tags,
+      recurrence, recurrence_cron, period_unit, period_offset, auto_start, next_run_at, items
+    )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+     RETURNING *`,
+    [
+      accountantId,
+      input.name,
+      input.campaign_name,
+      input.document_type,
+      JSON.stringify(input.reminder_steps),
+      input.reminder_send_time,
+      input.reminder_timezone,
+      input.business_days_only,
+      input.initial_message,
+      input.complete_when,
+      input.client_ids,
+      input.client_tags,
+      input.recurrence,
+      input.recurrence_cron,
+      input.period_unit,
+      input.period_offset,
+      input.auto_start,
+      nextRunAt,
+      JSON.stringify(input.items)
+    ]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Replace a template's settings, rescheduling its next run
+ * Returns null if the template doesn't belong to the accountant.
+ */
+export async function updateCampaignTemplate(
+  accountantId: string,
+  templateId: string,
+  input: CampaignTemplateInput
+): Promise<CampaignTemplate | null> {
+  const timezone = await getTemplateTimezone(accountantId, input);
+  const nextRunAt = getNextTemplateRun(input, timezone, new Date());
+
+  const result = await db.query<CampaignTemplate>(
+    `UPDATE campaign_templates
+     SET name = $3, campaign_name = $4, document_type = $5, reminder_steps = $6, reminder_send_time = $7,
+         reminder_timezone = $8, business_days_only = $9, initial_message = $10, complete_when = $11,
+         client_ids = $12, client_tags = $13, recurrence = $14, recurrence_cron = $15,
+         period_unit = $16, period_offset = $17, auto_start = $18, next_run_at = $19, items = $20,
+         updated_at = NOW()
+     WHERE id = $1 AND accountant_id = $2
+     RETURNING *`,
+    [
+      templateId,
+      accountantId,
+      input.name,
+      input.campaign_name,
+      input.document_type,
+      JSON.stringify(input.reminder_steps),
+      input.reminder_send_time,
+      input.reminder_timezone,
+      input.business_days_only,
+      input.initial_message,
+      input.complete_when,
+      input.client_ids,
+      input.client_tags,
+      input.recurrence,
+      input.recurrence_cron,
+      input.period_unit,
+      input.period_offset,
+      input.auto_start,
+      nextRunAt,
+      JSON.stringify(input.items)
+    ]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Create a draft campaign for one period from a template
+ *
+ * Clients are the template's client list plus every client with one of its tags.
+ * Returns null if the template already created a campaign for that period.
+ */
+export async function createCampaignFromTemplate(
+  template: CampaignTemplate,
+  period: string
+): Promise<{ campaign: Campaign; clientCount: number } | null> {
+  // All or nothing: a half-built campaign would hold the template's slot for the period
+  return db.transaction(async () => {
+    const campaignResult = await db.query<Campaign>(
+      `INSERT INTO campaigns (
+        accountant_id, name, document_type, period, status, reminder_send_time, reminder_timezone,
+        business_days_only, initial_message, complete_when, template_id
+      )
+       VALUES ($1, $2, $3, $4, 'draft', $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (template_id, period) WHERE template_id IS NOT NULL DO NOTHING
+       RETURNING *`,
+      [
+        template.accountant_id,
+        template.campaign_name.replace(/\{period\}/g, period),
+        template.document_type,
+        period,
+        template.reminder_send_time,
+        template.reminder_timezone,
+        template.business_days_only,
+        template.initial_message,
+        template.complete_when,
+        template.id
+      ]
+    );
+
+    const campaign = campaignResult.rows[0];
+    if (!campaign) {
+      return null;
+    }
+
+    await setReminderSteps(campaign.id, template.reminder_steps);
+    await setCampaignItems(
+      campaign.id,
+      template.items.length > 0 ? template.items : itemsForDocumentType(template.document_type)
+    );
+
+    const clientsResult = await db.query(
+      `INSERT INTO campaign_clients (campaign_id, client_id)
+       SELECT $1, id FROM clients
+       WHERE accountant_id = $2
+         AND (id = ANY($3::uuid[]) OR tags && $4::text[])`,
+      [campaign.id, template.accountant_id, template.client_ids, template.client_tags]
+    );
+
+    await db.query(
+      `UPDATE campaign_templates
+       SET last_campaign_id = $2
+       WHERE id = $1`,
+      [template.id, campaign.id]
+    );
+
+    const clientCount = clientsResult.rowCount || 0;
+    console.log(`🗂️ Created campaign "${campaign.name}" from template "${template.name}" with ${clientCount} clients`);
+
+    return { campaign, clientCount };
+  });
+}
+
+/**
+ * Create (and optionally start) the campaign for one due recurring template
+ */
+async function runRecurringTemplate(template: CampaignTemplate, scheduledFor: Date, timezone: string): Promise<void> {
+  const period = formatTemplatePeriod(template, timezone, scheduledFor);
+  const created = await createCampaignFromTemplate(template, period);
+
+  if (!created) {
+    console.log(`⏭️ Template "${template.name}" already has a campaign for ${period}`);
+    return;
+  }
+
+  let outcome: { results: StartCampaignResults } | StartCampaignError | null = null;
+  if (template.auto_start) {
+    outcome = created.clientCount > 0
+      ? await startCampaign(template.accountant_id, created.campaign.id)
+      : { status: 400, error: 'No clients in campaign' };
+  }
+
+  const startNote = !outcome
+    ? ' It is saved as a draft, ready to start.'
+    : 'error' in outcome
+      ? ` It couldn't be started automatically (${outcome.error}) and is saved as a draft.`
+      : ` It has been started and first messages to ${outcome.results.queued} clients are on their way.`;
+
+  await createNotification(
+    template.accountant_id,
+    'campaign_created',
+    'Recurring Campaign Created',
+    `"${created.campaign.name}" was created from your "${template.name}" template with ${created.clientCount} clients.${startNote}`,
+    undefined,
+    created.campaign.name
+  );
+}
+
+/**
+ * Create campaigns for every recurring template that's due
+ *
+ * Each template is claimed by moving next_run_at on before its campaign is created,
+ * so overlapping runs can't both create it (the template/period unique index backs this up).
+ */
+export async function runRecurringTemplates(now: Date = new Date()): Promise<number> {
+  const due = await db.query<CampaignTemplate>(
+    `SELECT * FROM campaign_templates
+     WHERE next_run_at IS NOT NULL AND next_run_at <= $1
+     ORDER BY next_run_at`,
+    [now]
+  );
+
+  let created = 0;
+
+  for (const template of due.rows) {
+    const scheduledFor = new Date(template.next_run_at!);
+    const timezone = await getTemplateTimezone(template.accountant_id, template);
+    const nextRunAt = getNextTemplateRun(template, timezone, now);
+
+    const claim = await db.query(
+      `UPDATE campaign_templates
+       SET next_run_at = $2, last_run_at = NOW()
+       WHERE id = $1 AND next_run_at = $3
+       RETURNING id`,
+      [template.id, nextRunAt, template.next_run_at]
+    );
+
+    if (claim.rows.length === 0) {
+      continue;
+    }
+
+    try {
+      await runRecurringTemplate(template, scheduledFor, timezone);
+      created++;
+    } catch (error) {
+      console.error(`❌ Failed to create campaign from template "${template.name}":`, error);
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Run recurring templates unless another instance is already doing it
+ */
+async function runTemplateScheduler(): Promise<void> {
+  try {
+    const run = await withAdvisoryLock('campaign_templates', () => runRecurringTemplates());
+
+    if (!run.acquired) {
+      console.log('🗂️ Recurring campaigns already being created by another instance, skipping');
+    }
+  } catch (error) {
+    console.error('❌ Error running recurring campaigns:', error);
+  }
+}
+
+/**
+ * Start the recurring campaign scheduler
+ * Checks every five minutes for templates whose next run has come round
+ */
+export function startTemplateScheduler(): void {
+  cron.schedule('*/5 * * * *', async () => {
+    await runTemplateScheduler();
+  });
+
+  console.log('✅ Recurring campaign scheduler started (runs every 5 minutes)');
+}
@@ -0,0 +1,207 @@
+import { db } from '../lib/db.js';
+import { getLocalDateKey, getZonedDateTime, isWithinSendWindow, parseSendTime, zonedTimeToUtc } from '../lib/timezone.js';
+
+/**
+ * Per-client contact preferences (columns on clients)
+ * Times are HH:MM wall-clock times in the campaign's timezone.
+ */
+export interface ContactPreferences {
+  preferred_contact_time: string | null;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  preferred_language: string | null;
+  do_not_contact_until: string | null; // YYYY-MM-DD, first day contact is allowed again
+}
+
+export type ContactDeferReason = 'do_not_contact' | 'quiet_hours';
+
+/**
+ * Select list for the preferences of a client aliased `c`, normalised to HH:MM / YYYY-MM-DD strings
+ */
+export const CONTACT_PREFERENCE_COLUMNS = `
+  to_char(c.preferred_contact_time, 'HH24:MI') as preferred_contact_time,
+  to_char(c.quiet_hours_start, 'HH24:MI') as quiet_hours_start,
+  to_char(c.quiet_hours_end, 'HH24:MI') as quiet_hours_end,
+  c.preferred_language,
+  to_char(c.do_not_contact_until, 'YYYY-MM-DD') as do_not_contact_until`;
+
+export const CONTACT_PREFERENCE_FIELDS: (keyof ContactPreferences)[] = [
+  'preferred_contact_time',
+  'quiet_hours_start',
+  'quiet_hours_end',
+  'preferred_language',
+  'do_not_contact_until',
+];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Granularity and range when searching for the next time a client can be contacted
+const CONTACT_SEARCH_STEP_MINUTES = 15;
+const CONTACT_SEARCH_DAYS = 2;
+
+function toMinutes(time: string): number {
+  const parsed = parseSendTime(time);
+  return parsed ? parsed.hours * 60 + parsed.minutes : 0;
+}
+
+/**
+ * Check if `now` is inside the client's quiet hours
+ * Quiet hours can wrap past midnight (e.g. 21:00-08:00).
+ */
+export function isInQuietHours(prefs: ContactPreferences, timezone: string, now: Date): boolean {
+  if (!prefs.quiet_hours_start || !prefs.quiet_hours_end) {
+    return false;
+  }
+
+  const local = getZonedDateTime(now, timezone);
+  const current = local.hour * 60 + local.minute;
+  const start = toMinutes(prefs.quiet_hours_start);
+  const end = toMinutes(prefs.quiet_hours_end);
+
+  if (start === end) {
+    return false;
+  }
+
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/**
+ * Why a client can't be contacted at `now`, or null if they can
+ * Preferred contact time isn't checked here - it replaces the send time instead.
+ */
+export function getContactDeferReason(
+  prefs: ContactPreferences,
+  timezone: string,
+  now: Date
+): ContactDeferReason | null {
+  if (prefs.do_not_contact_until && getLocalDateKey(now, timezone) < prefs.do_not_contact_until) {
+    return 'do_not_contact';
+  }
+
+  if (isInQuietHours(prefs, timezone, now)) {
+    return 'quiet_hours';
+  }
+
+  return null;
+}
+
+/**
+ * Why a campaign's first message can't go to the client at `now`, or null if it can
+ * Unlike reminders there's no campaign send time, so only the client's preferred time applies.
+ */
+export function getFirstMessageDeferReason(
+  prefs: ContactPreferences,
+  timezone: string,
+  now: Date
+): ContactDeferReason | 'outside_preferred_time' | null {
+  const reason = getContactDeferReason(prefs, timezone, now);
+  if (reason) {
+    return reason;
+  }
+
+  if (prefs.preferred_contact_time && !isWithinSendWindow(prefs.preferred_contact_time, timezone, now)) {
+    return 'outside_preferred_time';
+  }
+
+  return null;
+}
+
+/**
+ * The earliest time at or after `now` when a first message can go to the client
+ * Respects do-not-contact dates, quiet hours, and the preferred contact time's window.
+ */
+export function getNextContactTime(prefs: ContactPreferences, timezone: string, now: Date): Date {
+  let start = now;
+
+  if (prefs.do_not_contact_until && getLocalDateKey(now, timezone) < prefs.do_not_contact_until) {
+    const [year, month, day] = prefs.do_not_contact_until.split('-').map(Number);
+    start = zonedTimeToUtc(year, month, day, 0, 0, timezone);
+  }
+
+  const canContact = (time: Date) => getFirstMessageDeferReason(prefs, timezone, time) === null;
+
+  if (canContact(start)) {
+    return start;
+  }
+
+  // Walk forward in quarter-hours from the next quarter-hour boundary
+  const stepMs = CONTACT_SEARCH_STEP_MINUTES * MINUTE_MS;
+  let time = new Date((Math.floor(start.getTime() / stepMs) + 1) * stepMs);
+  const limit = start.getTime() + CONTACT_SEARCH_DAYS * DAY_MS;
+
+  while (time.getTime() <= limit) {
+    if (canContact(time)) {
+      return time;
+    }
+    time = new Date(time.getTime() + stepMs);
+  }
+
+  // Preferences that never allow contact (e.g. quiet hours covering the preferred time)
+  return start;
+}
+
+/**
+ * Validate contact preference fields from a request body
+ * Only fields present in the body are returned; null clears a preference.
+ */
+export function validateContactPreferences(
+  body: Record<string, any>
+): { prefs: Partial<ContactPreferences> } | { error: string } {
+  const prefs: Partial<ContactPreferences> = {};
+
+  for (const field of ['preferred_contact_time', 'quiet_hours_start', 'quiet_hours_end'] as const) {
+    if (body[field] === undefined) continue;
+    if (body[field] !== null && !parseSendTime(body[field])) {
+      return { error: `${field} must be HH:MM` };
+    }
+    prefs[field] = body[field];
+  }
+
+  if ((prefs.quiet_hours_start === undefined) !== (prefs.quiet_hours_end === undefined)) {
+    return { error: 'quiet_hours_start and quiet_hours_end must be set together' };
+  }
+
+  if (body.preferred_language !== undefined) {
+    if (body.preferred_language !== null && !/^[a-z]{2}(-[A-Z]{2})?$/.test(body.preferred_language)) {
+      return { error: 'preferred_language must be a language code like "en" or "cy"' };
+    }
+    prefs.preferred_language = body.preferred_language;
+  }
+
+  if (body.do_not_contact_until !== undefined) {
+    const value = body.do_not_contact_until;
+    if (value !== null && (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value)))) {
+      return { error: 'do_not_contact_until must be YYYY-MM-DD' };
+    }
+    prefs.do_not_contact_until = value;
+  }
+
+  return { prefs };
+}
+
+/**
+ * Record why a message to a campaign client was held back
+ */
+export async function recordDeferral(campaignClientId: string, reason: string): Promise<void> {
+  await db.query(
+    `UPDATE campaign_clients
+     SET deferred_reason = $2, deferred_at = NOW()
+     WHERE id = $1`,
+    [campaignClientId, reason]
+  );
+}
+
+/**
+ * Clear the deferral once a message has gone out
+ */
+export async function clearDeferral(campaignClientId: string): Promise<void> {
+  await db.query(
+    `UPDATE campaign_clients
+     SET deferred_reason = NULL, deferred_at = NULL
+     WHERE id = $1 AND deferred_reason IS NOT NULL`,
+    [campaignClientId]
+  );
+}
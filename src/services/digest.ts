@@ -0,0 +1,267 @@
+import { db, withAdvisoryLock } from '../lib/db.js';
+import cron from 'node-cron';
+import { sendEmail } from '../lib/email.js';
+import { digestEmail, DigestEmailData } from '../lib/email-templates.js';
+import { getSendWindowDate, isValidTimezone, parseSendTime, DEFAULT_TIMEZONE } from '../lib/timezone.js';
+
+export type DigestFrequency = DigestEmailData['frequency'];
+
+/**
+ * A practice's digest settings (columns on accountants)
+ */
+export interface DigestSettings {
+  frequency: DigestFrequency | null;
+  send_time: string; // HH:MM
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+}
+
+interface DigestAccountant extends DigestSettings {
+  id: string;
+  email: string;
+  timezone: string;
+}
+
+const FREQUENCIES: DigestFrequency[] = ['daily', 'weekly'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of clients received at which an active campaign counts as nearly complete
+const NEAR_COMPLETION_RATIO = 0.8;
+
+/**
+ * Load a practice's digest settings
+ */
+export async function getDigestSettings(accountantId: string): Promise<DigestSettings> {
+  const result = await db.query<DigestSettings>(
+    `SELECT digest_frequency as frequency,
+            COALESCE(to_char(digest_send_time, 'HH24:MI'), '08:00') as send_time,
+            COALESCE(digest_weekday, 1) as weekday
+     FROM accountants
+     WHERE id = $1`,
+    [accountantId]
+  );
+
+  return result.rows[0] || { frequency: null, send_time: '08:00', weekday: 1 };
+}
+
+/**
+ * Validate digest settings from a request body: { frequency, sendTime, weekday }
+ */
+export function validateDigestSettings(body: Record<string, any>): { settings: DigestSettings } | { error: string } {
+  const { frequency = null, sendTime = '08:00', weekday = 1 } = body;
+
+  if (frequency !== null && !FREQUENCIES.includes(frequency)) {
+    return { error: `frequency must be one of ${FREQUENCIES.join(', ')} (or null to turn the digest off)` };
+  }
+  if (!parseSendTime(sendTime)) {
+    return { error: 'sendTime must be HH:MM' };
+  }
+  if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+    return { error: 'weekday must be 0 (Sunday) to 6 (Saturday)' };
+  }
+
+  return { settings: { frequency, send_time: sendTime, weekday } };
+}
+
+/**
+ * Replace a practice's digest settings
+ */
+export async function saveDigestSettings(accountantId: string, settings: DigestSettings): Promise<void> {
+  await db.query(
+    `UPDATE accountants
+     SET digest_frequency = $1,
+         digest_send_time = $2,
+         digest_weekday = $3,
+         updated_at = NOW()
+     WHERE id = $4`,
+    [settings.frequency, settings.send_time, settings.weekday, accountantId]
+  );
+}
+
+/**
+ * Gather what happened for one practice since `since`
+ */
+export async function buildDigest(
+  accountantId: string,
+  frequency: DigestFrequency,
+  since: Date
+): Promise<DigestEmailData> {
+  const documents = await db.query<{ client_name: string; campaign_name: string | null; count: string }>(
+    `SELECT c.name as client_name, camp.name as campaign_name, COUNT(*) as count
+     FROM documents d
+     JOIN clients c ON d.client_id = c.id
+     LEFT JOIN campaigns camp ON d.campaign_id = camp.id
+     WHERE d.accountant_id = $1 AND d.created_at >= $2
+     GROUP BY c.name, camp.name
+     ORDER BY COUNT(*) DESC, c.name`,
+    [accountantId, since]
+  );
+
+  const flagged = await db.query<{ client_name: string; campaign_name: string }>(
+    `SELECT c.name as client_name, camp.name as campaign_name
+     FROM campaign_clients cc
+     JOIN clients c ON cc.client_id = c.id
+     JOIN campaigns camp ON cc.campaign_id = camp.id
+     WHERE camp.accountant_id = $1
+       AND cc.status = 'failed'
+       AND cc.stuck_at >= $2
+     ORDER BY cc.stuck_at`,
+    [accountantId, since]
+  );
+
+  const failures = await db.query<{ client_name: string | null; campaign_name: string | null }>(
+    `SELECT client_name, campaign_name
+     FROM notifications
+     WHERE accountant_id = $1
+       AND type = 'message_failed'
+       AND created_at >= $2
+     ORDER BY created_at`,
+    [accountantId, since]
+  );
+
+  const nearlyComplete = await db.query<{ campaign_name: string; received: string; total: string }>(
+    `SELECT camp.name as campaign_name,
+            COUNT(*) FILTER (WHERE cc.status = 'received') as received,
+            COUNT(*) as total
+     FROM campaigns camp
+     JOIN campaign_clients cc ON cc.campaign_id = camp.id
+     WHERE camp.accountant_id = $1 AND camp.status = 'active'
+     GROUP BY camp.id, camp.name
+     HAVING COUNT(*) FILTER (WHERE cc.status = 'received') < COUNT(*)
+        AND COUNT(*) FILTER (WHERE cc.status = 'received') >= COUNT(*) * $2::numeric
+     ORDER BY camp.name`,
+    [accountantId, NEAR_COMPLETION_RATIO]
+  );
+
+  return {
+    frequency,
+    documentsReceived: documents.rows.map(row => ({
+      clientName: row.client_name,
+      campaignName: row.campaign_name,
+      count: parseInt(row.count),
+    })),
+    newlyFlagged: flagged.rows.map(row => ({ clientName: row.client_name, campaignName: row.campaign_name })),
+    deliveryFailures: failures.rows.map(row => ({ clientName: row.client_name, campaignName: row.campaign_name })),
+    nearingCompletion: nearlyComplete.rows.map(row => ({
+      campaignName: row.campaign_name,
+      received: parseInt(row.received),
+      total: parseInt(row.total),
+    })),
+  };
+}
+
+function isEmptyDigest(digest: DigestEmailData): boolean {
+  return digest.documentsReceived.length === 0 &&
+    digest.newlyFlagged.length === 0 &&
+    digest.deliveryFailures.length === 0 &&
+    digest.nearingCompletion.length === 0;
+}
+
+/**
+ * Build and email one practice's digest covering the last day (or week) up to `now`
+ * `sent` is false if there was nothing to report or the email couldn't be sent.
+ */
+export async function sendDigest(
+  accountant: Pick<DigestAccountant, 'id' | 'email'>,
+  frequency: DigestFrequency,
+  now: Date = new Date()
+): Promise<{ sent: boolean; digest: DigestEmailData }> {
+  const since = new Date(now.getTime() - (frequency === 'weekly' ? 7 : 1) * DAY_MS);
+  const digest = await buildDigest(accountant.id, frequency, since);
+
+  if (isEmptyDigest(digest)) {
+    console.log(`📭 Nothing to report in ${frequency} digest for ${accountant.email}`);
+    return { sent: false, digest };
+  }
+
+  const email = digestEmail(digest);
+  return { sent: await sendEmail(accountant.email, email.subject, email.html), digest };
+}
+
+/**
+ * Send every digest whose local send time falls in this hour
+ *
+ * Each practice's digest is claimed by stamping the local date before sending, so an
+ * overlapping run (or a restart inside the window) can't send the same digest twice.
+ */
+export async function runDigests(now: Date = new Date()): Promise<{ sent: number; skipped: number }> {
+  const results = { sent: 0, skipped: 0 };
+
+  const accountantsResult = await db.query<DigestAccountant>(
+    `SELECT id, email, timezone,
+            digest_frequency as frequency,
+            COALESCE(to_char(digest_send_time, 'HH24:MI'), '08:00') as send_time,
+            COALESCE(digest_weekday, 1) as weekday
+     FROM accountants
+     WHERE digest_frequency IS NOT NULL
+       AND notification_email = true`
+  );
+
+  for (const accountant of accountantsResult.rows) {
+    const timezone = isValidTimezone(accountant.timezone) ? accountant.timezone : DEFAULT_TIMEZONE;
+    const windowDate = getSendWindowDate(accountant.send_time, timezone, now);
+    if (!windowDate || !accountant.frequency) {
+      continue;
+    }
+
+    if (accountant.frequency === 'weekly' && new Date(`${windowDate}T00:00:00Z`).getUTCDay() !== accountant.weekday) {
+      continue;
+    }
+
+    const claim = await db.query(
+      `UPDATE accountants
+       SET digest_last_sent_on = $2
+       WHERE id = $1 AND (digest_last_sent_on IS NULL OR digest_last_sent_on < $2::date)
+       RETURNING id`,
+      [accountant.id, windowDate]
+    );
+
+    if (claim.rows.length === 0) {
+      continue;
+    }
+
+    try {
+      const { sent } = await sendDigest(accountant, accountant.frequency, now);
+      if (sent) {
+        results.sent++;
+        console.log(`📋 ${accountant.frequency} digest sent to ${accountant.email}`);
+      } else {
+        results.skipped++;
+      }
+    } catch (error) {
+      results.skipped++;
+      console.error(`❌ Failed to send digest to ${accountant.email}:`, error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Run the digests unless another instance is already doing it
+ */
+async function runDigestScheduler(): Promise<void> {
+  try {
+    const run = await withAdvisoryLock('digest_emails', () => runDigests());
+
+    if (!run.acquired) {
+      console.log('📋 Digest emails already being sent by another instance, skipping');
+    } else if (run.result.sent > 0) {
+      console.log(`📋 Digests - Sent: ${run.result.sent}, Skipped: ${run.result.skipped}`);
+    }
+  } catch (error) {
+    console.error('❌ Error running digest emails:', error);
+  }
+}
+
+/**
+ * Start the digest scheduler
+ * Runs hourly so each practice's digest goes out in the hour after its local send time
+ */
+export function startDigestScheduler(): void {
+  cron.schedule('0 * * * *', async () => {
+    await runDigestScheduler();
+  });
+
+  console.log('✅ Digest email scheduler started (runs every hour)');
+}
@@ -0,0 +1,264 @@
+import { db } from '../lib/db.js';
+import {
+  processDocument,
+  checkPdfConversion,
+  convertDocumentToCsv,
+  markConversionFailed,
+  PDF_CONVERSION_POLL_SECONDS,
+  PDF_CONVERSION_MAX_POLLS,
+} from '../lib/banktofile.js';
+import { uploadUnsortedMedia } from '../lib/google-drive.js';
+import { Job, enqueueJob, registerJobHandler } from './job-queue.js';
+import { Document } from '../types/index.js';
+
+export interface ProcessDocumentJob {
+  documentId: string;
+  pageNumber?: number;
+}
+
+export interface PollPdfConversionJob {
+  documentId: string;
+  jobId: string;
+  polls: number;
+}
+
+export interface ConvertDocumentJob {
+  documentId: string;
+}
+
+export interface UploadInboxAttachmentJob {
+  attachmentId: string;
+}
+
+/**
+ * Queue a document for Drive upload + CSV conversion
+ */
+export async function enqueueDocumentProcessing(documentId: string, pageNumber?: number): Promise<void> {
+  await enqueueJob<ProcessDocumentJob>('process_document', { documentId, pageNumber });
+}
+
+/**
+ * Re-run whatever failed for a document
+ * - never reached Drive: re-queue the upload (which also converts PDFs)
+ * - on Drive but the PDF conversion failed: re-queue just the conversion
+ * Returns the step queued, or null if there's nothing to retry.
+ */
+export async function reprocessDocument(document: Document): Promise<'upload' | 'convert' | null> {
+  if (!document.campaign_id) {
+    return null;
+  }
+
+  if (!document.drive_file_id) {
+    await db.query(
+      `UPDATE documents
+       SET conversion_status = 'pending_upload', conversion_error = NULL
+       WHERE id = $1`,
+      [document.id]
+    );
+    await enqueueDocumentProcessing(document.id);
+    return 'upload';
+  }
+
+  if (document.conversion_status === 'conversion_failed' && document.mime_type?.includes('pdf')) {
+    await db.query(
+      `UPDATE documents
+       SET conversion_status = 'pending_conversion', conversion_error = NULL
+       WHERE id = $1`,
+      [document.id]
+    );
+    await enqueueJob<ConvertDocumentJob>('convert_document', { documentId: document.id });
+    return 'convert';
+  }
+
+  return null;
+}
+
+/**
+ * Upload a document to Drive and start its CSV conversion
+ * Each failure is recorded on the document; after the last attempt it's marked upload_failed
+ */
+async function handleProcessDocument(
+  { documentId, pageNumber }: ProcessDocumentJob,
+  job: Job<ProcessDocumentJob>
+): Promise<void> {
+  const result = await db.query<{
+    id: string;
+    accountant_id: string;
+    campaign_id: string;
+    original_url: string;
+    mime_type: string | null;
+    drive_file_id: string | null;
+    document_type: string;
+    period: string;
+    client_name: string;
+    client_phone: string;
+  }>(
+    `SELECT d.id, d.accountant_id, d.campaign_id, d.original_url, d.mime_type, d.drive_file_id,
+            COALESCE(ci.document_type, camp.document_type) as document_type, camp.period,
+            c.name as client_name, c.phone as client_phone
+     FROM documents d
+     JOIN campaigns camp ON d.campaign_id = camp.id
+     JOIN clients c ON d.client_id = c.id
+     LEFT JOIN campaign_items ci ON d.campaign_item_id = ci.id
+     WHERE d.id = $1`,
+    [documentId]
+  );
+
+  const document = result.rows[0];
+
+  if (!document) {
+    console.log(`⏭️ Document ${documentId} no longer exists or has no campaign - skipping`);
+    return;
+  }
+
+  // A previous attempt may have uploaded before the worker died
+  if (document.drive_file_id) {
+    console.log(`⏭️ Document ${documentId} already uploaded to Drive - skipping`);
+    return;
+  }
+
+  try {
+    await processDocument(
+      document.id,
+      document.accountant_id,
+      document.campaign_id,
+      document.document_type,
+      document.period,
+      document.client_name,
+      document.client_phone,
+      document.original_url,
+      document.mime_type || 'unknown',
+      pageNumber
+    );
+  } catch (error) {
+    const isFinalAttempt = job.attempts >= job.max_attempts;
+
+    await db.query(
+      `UPDATE documents
+       SET conversion_error = $1,
+           conversion_status = CASE WHEN $2 THEN 'upload_failed' ELSE conversion_status END
+       WHERE id = $3`,
+      [`Drive upload failed: ${error instanceof Error ? error.message : String(error)}`, isFinalAttempt, documentId]
+    );
+
+    throw error;
+  }
+}
+
+/**
+ * Re-submit an already-uploaded PDF for CSV conversion
+ */
+async function handleConvertDocument({ documentId }: ConvertDocumentJob): Promise<void> {
+  const result = await db.query<Document>(
+    `SELECT * FROM documents WHERE id = $1`,
+    [documentId]
+  );
+
+  const document = result.rows[0];
+
+  if (!document || !document.drive_file_url) {
+    return;
+  }
+
+  await convertDocumentToCsv(document.drive_file_url, document.id);
+}
+
+/**
+ * Poll BankToFile once; re-queue another poll until the conversion finishes or times out
+ * If the poll itself keeps failing, the document is marked conversion_failed on the last attempt
+ */
+async function handlePollPdfConversion(
+  { documentId, jobId, polls }: PollPdfConversionJob,
+  job: Job<PollPdfConversionJob>
+): Promise<void> {
+  let status: Awaited<ReturnType<typeof checkPdfConversion>>;
+
+  try {
+    status = await checkPdfConversion(jobId, documentId);
+  } catch (error) {
+    if (job.attempts >= job.max_attempts) {
+      await markConversionFailed(
+        documentId,
+        `PDF conversion status check failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    throw error;
+  }
+
+  if (status !== 'processing') {
+    return;
+  }
+
+  if (polls + 1 >= PDF_CONVERSION_MAX_POLLS) {
+    console.error(`❌ PDF conversion timed out for document ${documentId}`);
+    await markConversionFailed(documentId, 'PDF conversion timed out');
+    return;
+  }
+
+  await enqueueJob<PollPdfConversionJob>(
+    'poll_pdf_conversion',
+    { documentId, jobId, polls: polls + 1 },
+    { delaySeconds: PDF_CONVERSION_POLL_SECONDS }
+  );
+}
+
+/**
+ * Upload an inbox attachment to GettingDocs/Unsorted and record where it went
+ */
+async function handleUploadInboxAttachment({ attachmentId }: UploadInboxAttachmentJob): Promise<void> {
+  const result = await db.query<{
+    id: string;
+    media_index: number;
+    original_url: string;
+    mime_type: string | null;
+    drive_file_id: string | null;
+    accountant_id: string;
+    from_phone: string;
+  }>(
+    `SELECT a.id, a.media_index, a.original_url, a.mime_type, a.drive_file_id,
+            i.accountant_id, i.from_phone
+     FROM inbox_attachments a
+     JOIN inbox_messages i ON a.inbox_message_id = i.id
+     WHERE a.id = $1`,
+    [attachmentId]
+  );
+
+  const attachment = result.rows[0];
+
+  if (!attachment || attachment.drive_file_id) {
+    return;
+  }
+
+  try {
+    const { driveFileId, driveFileUrl } = await uploadUnsortedMedia(
+      attachment.accountant_id,
+      attachment.from_phone,
+      attachment.original_url,
+      attachment.mime_type || 'unknown',
+      attachment.media_index + 1
+    );
+
+    await db.query(
+      `UPDATE inbox_attachments
+       SET drive_file_id = $1, drive_file_url = $2, upload_error = NULL
+       WHERE id = $3`,
+      [driveFileId, driveFileUrl, attachment.id]
+    );
+  } catch (error) {
+    await db.query(
+      `UPDATE inbox_attachments SET upload_error = $1 WHERE id = $2`,
+      [error instanceof Error ? error.message : String(error), attachment.id]
+    );
+    throw error;
+  }
+}
+
+/**
+ * Register document processing job handlers with the queue
+ */
+export function registerDocumentJobs(): void {
+  registerJobHandler('process_document', handleProcessDocument);
+  registerJobHandler('convert_document', handleConvertDocument);
+  registerJobHandler('poll_pdf_conversion', handlePollPdfConversion, { visibilityTimeoutSeconds: 60 });
+  registerJobHandler('upload_inbox_attachment', handleUploadInboxAttachment);
+}
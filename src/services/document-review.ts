@@ -0,0 +1,179 @@
+import { db } from '../lib/db.js';
+import { sendDocumentRejection } from '../lib/twilio.js';
+import { completeCampaignIfDone } from './campaign-completion.js';
+import { getCampaignItems, setClientItemStatus, refreshClientItemStatus, refreshClientStatus } from './campaign-items.js';
+import { Document } from '../types/index.js';
+
+type ReviewableDocument = Document & {
+  client_name: string;
+  client_phone: string;
+  document_type: string;
+  period: string;
+  campaign_client_id: string | null;
+  item_label: string | null;
+};
+
+/**
+ * Load a document awaiting review that belongs to the accountant, with client/campaign details
+ */
+export async function getReviewableDocument(
+  documentId: string,
+  accountantId: string
+): Promise<ReviewableDocument | null> {
+  const result = await db.query<ReviewableDocument>(
+    `SELECT d.*, c.name as client_name, c.phone as client_phone,
+            camp.document_type, camp.period,
+            cc.id as campaign_client_id, ci.label as item_label
+     FROM documents d
+     JOIN clients c ON d.client_id = c.id
+     JOIN campaigns camp ON d.campaign_id = camp.id
+     LEFT JOIN campaign_clients cc ON cc.campaign_id = d.campaign_id AND cc.client_id = d.client_id
+     LEFT JOIN campaign_items ci ON d.campaign_item_id = ci.id
+     WHERE d.id = $1 AND d.accountant_id = $2`,
+    [documentId, accountantId]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Check which checklist item a document is accepted as
+ * Documents that weren't matched to an item need one picked, unless the campaign only
+ * has one. Returns the item ID, or an error for the API.
+ */
+export async function resolveAcceptItem(
+  document: ReviewableDocument,
+  itemId: unknown
+): Promise<{ itemId: string | null } | { error: string }> {
+  const items = document.campaign_id ? await getCampaignItems(document.campaign_id) : [];
+
+  if (itemId !== undefined && itemId !== null) {
+    if (!items.some(item => item.id === itemId)) {
+      return { error: 'item_id is not on this campaign\'s checklist' };
+    }
+    return { itemId: itemId as string };
+  }
+
+  if (document.campaign_item_id || items.length <= 1) {
+    return { itemId: document.campaign_item_id || items[0]?.id || null };
+  }
+
+  return { error: 'Choose which checklist item this document is (item_id)' };
+}
+
+/**
+ * Accept a document as one checklist item
+ * The campaign client counts as received once every required item has been accepted.
+ */
+export async function acceptDocument(document: ReviewableDocument, itemId: string | null): Promise<Document> {
+  const result = await db.query<Document>(
+    `UPDATE documents
+     SET review_status = 'accepted', rejection_reason = NULL, reviewed_at = NOW(), campaign_item_id = $2
+     WHERE id = $1
+     RETURNING *`,
+    [document.id, itemId]
+  );
+
+  if (document.campaign_client_id) {
+    // Re-matched to another item: the one it was matched to may have nothing left for review
+    if (document.campaign_item_id && document.campaign_item_id !== itemId) {
+      await refreshClientItemStatus(document.campaign_client_id, document.campaign_item_id);
+    }
+    if (itemId) {
+      await setClientItemStatus(document.campaign_client_id, itemId, 'received');
+    }
+    await refreshClientStatus(document.campaign_client_id);
+  }
+
+  console.log(`✅ Document ${document.id} from ${document.client_name} accepted`);
+
+  if (document.campaign_id) {
+    await completeCampaignIfDone(document.campaign_id);
+  }
+
+  return result.rows[0];
+}
+
+/**
+ * Reject a document and ask the client for the right one
+ *
+ * The campaign client goes back to pending with a fresh reminder clock, unless
+ * another of their documents in the campaign has already been accepted or is
+ * still waiting for review; then only the checklist item goes back to pending.
+ * The re-request message is best-effort: a send failure is reported but doesn't
+ * undo the rejection.
+ */
+export async function rejectDocument(
+  document: ReviewableDocument,
+  reason: string
+): Promise<{ document: Document; requestSent: boolean; clientReset: boolean }> {
+  const result = await db.query<Document>(
+    `UPDATE documents
+     SET review_status = 'rejected', rejection_reason = $1, reviewed_at = NOW()
+     WHERE id = $2
+     RETURNING *`,
+    [reason, document.id]
+  );
+
+  const otherDocuments = await db.query(
+    `SELECT 1 FROM documents
+     WHERE campaign_id = $1 AND client_id = $2 AND id != $3
+       AND review_status IN ('accepted', 'awaiting_review')
+     LIMIT 1`,
+    [document.campaign_id, document.client_id, document.id]
+  );
+
+  const clientReset = otherDocuments.rows.length === 0;
+
+  if (document.campaign_client_id && document.campaign_item_id) {
+    await refreshClientItemStatus(document.campaign_client_id, document.campaign_item_id);
+  }
+
+  if (!clientReset && document.campaign_client_id) {
+    await refreshClientStatus(document.campaign_client_id);
+  }
+
+  if (clientReset) {
+    // Restart the reminder clock from now (first_message_sent_at keeps the real send time)
+    await db.query(
+      `UPDATE campaign_clients
+       SET status = 'pending',
+           received_at = NULL,
+           reminders_restarted_at = NOW(),
+           stuck_at = NULL,
+           updated_at = NOW()
+       WHERE campaign_id = $1 AND client_id = $2`,
+      [document.campaign_id, document.client_id]
+    );
+
+    // Run the reminder sequence again from the first step
+    await db.query(
+      `DELETE FROM reminder_step_log
+       WHERE campaign_client_id = (
+         SELECT id FROM campaign_clients WHERE campaign_id = $1 AND client_id = $2
+       )`,
+      [document.campaign_id, document.client_id]
+    );
+  }
+
+  let requestSent = false;
+  try {
+    const documentDescription = `${document.period} ${document.item_label || document.document_type.replace(/_/g, ' ')}`;
+
+    await sendDocumentRejection(
+      document.client_phone,
+      document.client_name,
+      reason,
+      documentDescription,
+      document.accountant_id,
+      document.client_id,
+      document.campaign_id || undefined
+    );
+    requestSent = true;
+  } catch (error) {
+    console.error(`❌ Failed to send re-request to ${document.client_name}:`, error);
+  }
+
+  console.log(`🚫 Document ${document.id} from ${document.client_name} rejected: "${reason}"`);
+  return { document: result.rows[0], requestSent, clientReset };
+}
@@ -0,0 +1,302 @@
+import { db } from '../lib/db.js';
+import { sendSms } from '../lib/twilio.js';
+import { sendEmail } from '../lib/email.js';
+import { clientStuckEmail, clientDocumentReminderEmail } from '../lib/email-templates.js';
+import { createNotification } from '../routes/notifications.js';
+import { SuppressedNumberError } from './suppression.js';
+import { getDocumentDescription } from './campaign-items.js';
+
+export type EscalationAction = 'notify_accountant' | 'client_sms' | 'client_email' | 'reassign';
+export type EscalationClientChannel = 'sms' | 'email';
+
+/**
+ * A practice's escalation chain for clients flagged as failed (columns on accountants)
+ */
+export interface EscalationSettings {
+  notify_accountant: boolean;
+  client_channel: EscalationClientChannel | null;
+  assignee_id: string | null;
+}
+
+export interface EscalationLogEntry {
+  id: string;
+  campaign_client_id: string;
+  action: EscalationAction;
+  status: 'done' | 'skipped' | 'failed';
+  detail: string | null;
+  created_at: Date;
+}
+
+interface EscalationTarget {
+  campaign_client_id: string;
+  campaign_id: string;
+  campaign_name: string;
+  document_type: string;
+  period: string;
+  first_message_sent_at: Date | null;
+  accountant_id: string;
+  practice_name: string | null;
+  client_id: string;
+  client_name: string;
+  client_phone: string;
+  client_email: string | null;
+}
+
+const CLIENT_CHANNELS: EscalationClientChannel[] = ['sms', 'email'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Load a practice's escalation chain
+ */
+export async function getEscalationSettings(accountantId: string): Promise<EscalationSettings> {
+  const result = await db.query<EscalationSettings>(
+    `SELECT COALESCE(escalation_notify_accountant, true) as notify_accountant,
+            escalation_client_channel as client_channel,
+            escalation_assignee_id as assignee_id
+     FROM accountants
+     WHERE id = $1`,
+    [accountantId]
+  );
+
+  return result.rows[0] || { notify_accountant: true, client_channel: null, assignee_id: null };
+}
+
+/**
+ * Validate an escalation chain from a request body
+ * The assignee has to be one of the practice's own team members.
+ */
+export async function validateEscalationSettings(
+  accountantId: string,
+  body: Record<string, any>
+): Promise<{ settings: EscalationSettings } | { error: string }> {
+  const { notifyAccountant = true, clientChannel = null, assigneeId = null } = body;
+
+  if (typeof notifyAccountant !== 'boolean') {
+    return { error: 'notifyAccountant must be true or false' };
+  }
+  if (clientChannel !== null && !CLIENT_CHANNELS.includes(clientChannel)) {
+    return { error: `clientChannel must be one of ${CLIENT_CHANNELS.join(', ')} (or null)` };
+  }
+
+  if (assigneeId !== null) {
+    const member = await db.query(
+      `SELECT id FROM team_members WHERE id = $1 AND accountant_id = $2`,
+      [assigneeId, accountantId]
+    );
+    if (member.rows.length === 0) {
+      return { error: 'Team member not found' };
+    }
+  }
+
+  return { settings: { notify_accountant: notifyAccountant, client_channel: clientChannel, assignee_id: assigneeId } };
+}
+
+/**
+ * Replace a practice's escalation chain
+ */
+export async function saveEscalationSettings(accountantId: string, settings: EscalationSettings): Promise<void> {
+  await db.query(
+    `UPDATE accountants
+     SET escalation_notify_accountant = $1,
+         escalation_client_channel = $2,
+         escalation_assignee_id = $3,
+         updated_at = NOW()
+     WHERE id = $4`,
+    [settings.notify_accountant, settings.client_channel, settings.assignee_id, accountantId]
+  );
+}
+
+async function logEscalation(
+  campaignClientId: string,
+  action: EscalationAction,
+  status: EscalationLogEntry['status'],
+  detail: string | null
+): Promise<EscalationLogEntry> {
+  const result = await db.query<EscalationLogEntry>(
+    `INSERT INTO escalation_log (campaign_client_id, action, status, detail)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [campaignClientId, action, status, detail]
+  );
+
+  return result.rows[0];
+}
+
+async function notifyAccountant(target: EscalationTarget, daysWaiting: number): Promise<string> {
+  const documentDescription = await getDocumentDescription(target.campaign_client_id, target.period, target.document_type);
+
+  await createNotification(
+    target.accountant_id,
+    'client_stuck',
+    'Client needs attention',
+    `${target.client_name} still hasn't sent their ${documentDescription} after ${daysWaiting} days`,
+    target.client_name,
+    target.campaign_name,
+    { daysSinceLastMessage: daysWaiting }
+  );
+
+  return 'Notification created';
+}
+
+/**
+ * Last-chance message to the client on a channel other than WhatsApp
+ * Returns null if the client can't be reached on that channel.
+ */
+async function messageClient(target: EscalationTarget, channel: EscalationClientChannel): Promise<string | null> {
+  const practiceName = target.practice_name || 'your accountant';
+  const documentDescription = await getDocumentDescription(target.campaign_client_id, target.period, target.document_type);
+
+  if (channel === 'email') {
+    if (!target.client_email) {
+      return null;
+    }
+
+    const email = clientDocumentReminderEmail(target.client_name, practiceName, documentDescription);
+    const sent = await sendEmail(target.client_email, email.subject, email.html);
+    if (!sent) {
+      throw new Error('Email could not be sent');
+    }
+    return `Emailed ${target.client_email}`;
+  }
+
+  await sendSms(
+    target.client_phone,
+    `Hi ${target.client_name}, ${practiceName} is still waiting on your ${documentDescription}. ` +
+      `Please send it as soon as you can by replying to our WhatsApp message, or get in touch with us directly.`,
+    target.accountant_id,
+    target.client_id,
+    target.campaign_id
+  );
+  return `Texted ${target.client_phone}`;
+}
+
+/**
+ * Hand the client to a team member, emailing them if they have an address
+ * Returns null if the team member no longer exists.
+ */
+async function reassignClient(target: EscalationTarget, assigneeId: string, daysWaiting: number): Promise<string | null> {
+  const memberResult = await db.query<{ name: string; email: string | null }>(
+    `SELECT name, email FROM team_members WHERE id = $1 AND accountant_id = $2`,
+    [assigneeId, target.accountant_id]
+  );
+
+  const member = memberResult.rows[0];
+  if (!member) {
+    return null;
+  }
+
+  await db.query(
+    `UPDATE campaign_clients
+     SET assigned_to = $2, assigned_at = NOW()
+     WHERE id = $1`,
+    [target.campaign_client_id, assigneeId]
+  );
+
+  if (member.email) {
+    const email = clientStuckEmail(target.client_name, daysWaiting, target.campaign_name);
+    await sendEmail(member.email, email.subject, email.html);
+  }
+
+  return `Assigned to ${member.name}`;
+}
+
+/**
+ * Run the practice's escalation chain for a campaign client that has just been flagged as failed
+ *
+ * Each action is logged against the campaign client, and a failing action doesn't stop
+ * the rest. `alwaysNotify` notifies the accountant even if the practice turned that off
+ * (used by reminder steps whose action is 'escalate').
+ */
+export async function escalateFailedClient(
+  campaignClientId: string,
+  options: { alwaysNotify?: boolean } = {}
+): Promise<EscalationLogEntry[]> {
+  const targetResult = await db.query<EscalationTarget>(
+    `SELECT cc.id as campaign_client_id, cc.first_message_sent_at,
+            camp.id as campaign_id, camp.name as campaign_name, camp.document_type, camp.period,
+            acc.id as accountant_id, acc.practice_name,
+            c.id as client_id, c.name as client_name, c.phone as client_phone, c.email as client_email
+     FROM campaign_clients cc
+     JOIN campaigns camp ON cc.campaign_id = camp.id
+     JOIN accountants acc ON camp.accountant_id = acc.id
+     JOIN clients c ON cc.client_id = c.id
+     WHERE cc.id = $1`,
+    [campaignClientId]
+  );
+
+  const target = targetResult.rows[0];
+  if (!target) {
+    return [];
+  }
+
+  const settings = await getEscalationSettings(target.accountant_id);
+  const daysWaiting = target.first_message_sent_at
+    ? Math.max(1, Math.floor((Date.now() - new Date(target.first_message_sent_at).getTime()) / DAY_MS))
+    : 0;
+
+  // Each action returns what it did, or null when there was nothing it could do (skipReason)
+  const actions: Array<{ action: EscalationAction; skipReason: string; run: () => Promise<string | null> }> = [];
+
+  if (settings.notify_accountant || options.alwaysNotify) {
+    actions.push({
+      action: 'notify_accountant',
+      skipReason: '',
+      run: () => notifyAccountant(target, daysWaiting)
+    });
+  }
+  if (settings.client_channel) {
+    const channel = settings.client_channel;
+    actions.push({
+      action: channel === 'sms' ? 'client_sms' : 'client_email',
+      skipReason: `No ${channel === 'sms' ? 'phone number' : 'email address'} for client`,
+      run: () => messageClient(target, channel)
+    });
+  }
+  if (settings.assignee_id) {
+    const assigneeId = settings.assignee_id;
+    actions.push({
+      action: 'reassign',
+      skipReason: 'Team member no longer exists',
+      run: () => reassignClient(target, assigneeId, daysWaiting)
+    });
+  }
+
+  const log: EscalationLogEntry[] = [];
+
+  for (const { action, skipReason, run } of actions) {
+    try {
+      const detail = await run();
+      log.push(await logEscalation(campaignClientId, action, detail ? 'done' : 'skipped', detail || skipReason));
+      console.log(`🚨 Escalation ${action} for ${target.client_name}: ${detail || `skipped (${skipReason})`}`);
+    } catch (error) {
+      if (error instanceof SuppressedNumberError) {
+        log.push(await logEscalation(campaignClientId, action, 'skipped', 'Client opted out of messages'));
+        continue;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      log.push(await logEscalation(campaignClientId, action, 'failed', message));
+      console.error(`❌ Escalation ${action} failed for ${target.client_name}:`, error);
+    }
+  }
+
+  return log;
+}
+
+/**
+ * Escalation history for every client in a campaign, oldest first
+ */
+export async function listCampaignEscalations(campaignId: string): Promise<Array<EscalationLogEntry & { client_id: string; client_name: string }>> {
+  const result = await db.query<EscalationLogEntry & { client_id: string; client_name: string }>(
+    `SELECT l.*, c.id as client_id, c.name as client_name
+     FROM escalation_log l
+     JOIN campaign_clients cc ON l.campaign_client_id = cc.id
+     JOIN clients c ON cc.client_id = c.id
+     WHERE cc.campaign_id = $1
+     ORDER BY l.created_at`,
+    [campaignId]
+  );
+
+  return result.rows;
+}
@@ -0,0 +1,137 @@
+import { db } from '../lib/db.js';
+import { IcsHoliday } from '../lib/ics.js';
+
+export interface AccountantHoliday {
+  id: string;
+  accountant_id: string;
+  holiday_date: string; // YYYY-MM-DD
+  name: string | null;
+  source: 'manual' | 'ics';
+  created_at: Date;
+}
+
+/**
+ * Holiday dates (YYYY-MM-DD) for one accountant
+ */
+export type HolidayCalendar = Set<string>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * List an accountant's holidays, optionally for a single year
+ */
+export async function listHolidays(accountantId: string, year?: number): Promise<AccountantHoliday[]> {
+  const result = await db.query<AccountantHoliday>(
+    `SELECT id, accountant_id, to_char(holiday_date, 'YYYY-MM-DD') as holiday_date, name, source, created_at
+     FROM accountant_holidays
+     WHERE accountant_id = $1
+       AND ($2::int IS NULL OR EXTRACT(YEAR FROM holiday_date) = $2::int)
+     ORDER BY holiday_date`,
+    [accountantId, year ?? null]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Add holidays, skipping dates that are already in the calendar
+ * Returns how many were new.
+ */
+export async function addHolidays(
+  accountantId: string,
+  holidays: IcsHoliday[],
+  source: AccountantHoliday['source']
+): Promise<number> {
+  let added = 0;
+
+  for (const holiday of holidays) {
+    const result = await db.query(
+      `INSERT INTO accountant_holidays (accountant_id, holiday_date, name, source)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (accountant_id, holiday_date) DO NOTHING`,
+      [accountantId, holiday.date, holiday.name, source]
+    );
+    added += result.rowCount || 0;
+  }
+
+  return added;
+}
+
+/**
+ * Load an accountant's holiday calendar, reusing an already-loaded one from `cache`
+ */
+export async function getHolidayCalendar(
+  accountantId: string,
+  cache?: Map<string, HolidayCalendar>
+): Promise<HolidayCalendar> {
+  const cached = cache?.get(accountantId);
+  if (cached) {
+    return cached;
+  }
+
+  const result = await db.query<{ holiday_date: string }>(
+    `SELECT to_char(holiday_date, 'YYYY-MM-DD') as holiday_date
+     FROM accountant_holidays
+     WHERE accountant_id = $1`,
+    [accountantId]
+  );
+
+  const calendar: HolidayCalendar = new Set(result.rows.map(row => row.holiday_date));
+  cache?.set(accountantId, calendar);
+  return calendar;
+}
+
+/**
+ * Check that a string is a real YYYY-MM-DD date
+ */
+export function isValidDateKey(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function addDays(dateKey: string, days: number): string {
+  return new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Working day = Monday to Friday and not in the holiday calendar
+ */
+export function isWorkingDay(dateKey: string, holidays: HolidayCalendar): boolean {
+  const weekday = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !holidays.has(dateKey);
+}
+
+/**
+ * The date `days` working days after `dateKey` (the start date itself doesn't count)
+ */
+export function addWorkingDays(dateKey: string, days: number, holidays: HolidayCalendar): string {
+  let date = dateKey;
+  let remaining = days;
+
+  while (remaining > 0) {
+    date = addDays(date, 1);
+    if (isWorkingDay(date, holidays)) {
+      remaining--;
+    }
+  }
+
+  return date;
+}
+
+/**
+ * The first working day on or after `dateKey`
+ */
+export function nextWorkingDay(dateKey: string, holidays: HolidayCalendar): string {
+  let date = dateKey;
+
+  // A year of consecutive closures would be a data problem, not a schedule
+  for (let i = 0; i < 366 && !isWorkingDay(date, holidays); i++) {
+    date = addDays(date, 1);
+  }
+
+  return date;
+}
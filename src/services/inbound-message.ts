@@ -0,0 +1,489 @@
+import { db } from '../lib/db.js';
+import { TwilioWebhookPayload, sendWhatsApp, getPlatformSenderNumbers } from '../lib/twilio.js';
+import { generateResponse } from '../lib/claude.js';
+import { createNotification } from '../routes/notifications.js';
+import { resolveCampaignForMessage } from './campaign-resolution.js';
+import { matchDocumentToItem, setClientItemStatus, refreshClientStatus, formatItemList } from './campaign-items.js';
+import { addToInbox } from './inbox.js';
+import { enqueueDocumentProcessing } from './document-jobs.js';
+import { getOptOutKeywords, matchOptOutKeyword, recordOptOut } from './suppression.js';
+import { Message, Client, Campaign, Document } from '../types/index.js';
+
+/**
+ * Where an inbound WhatsApp message should be delivered
+ * - client: a single practice owns this sender
+ * - unknown: no matching client (accountantId is set when the To number identified the practice)
+ * - ambiguous: the sender is a client of several practices and the To number didn't disambiguate
+ */
+export type InboundRoute =
+  | { type: 'client'; accountantId: string; client: Client }
+  | { type: 'unknown'; accountantId: string | null }
+  | { type: 'ambiguous'; candidates: Client[] };
+
+/**
+ * Strip the whatsapp: prefix Twilio adds to phone numbers
+ */
+export function normalizeTwilioPhone(phone: string): string {
+  return phone.replace('whatsapp:', '').trim();
+}
+
+/**
+ * Validate a Twilio number to assign to a practice
+ * Must be E.164 (an optional whatsapp: prefix is stripped) and not a shared platform sender.
+ */
+export function validateTwilioNumber(input: unknown): { number: string } | { error: string } {
+  if (typeof input !== 'string') {
+    return { error: 'twilioPhoneNumber must be a phone number' };
+  }
+
+  const number = normalizeTwilioPhone(input);
+  if (!/^\+[1-9]\d{6,14}$/.test(number)) {
+    return { error: 'twilioPhoneNumber must be in E.164 format, e.g. +447700900123' };
+  }
+
+  if (getPlatformSenderNumbers().includes(number)) {
+    return { error: 'The shared DocChase sender number cannot be assigned to a practice' };
+  }
+
+  return { number };
+}
+
+/**
+ * Assign (or with null, remove) a practice's dedicated Twilio number
+ * Returns an error if another practice already has the number.
+ */
+export async function assignTwilioNumber(
+  accountantId: string,
+  number: string | null
+): Promise<{ twilioPhoneNumber: string | null } | { error: string; status: number }> {
+  if (number) {
+    const taken = await db.query(
+      'SELECT id FROM accountants WHERE twilio_phone_number = $1 AND id != $2',
+      [number, accountantId]
+    );
+    if (taken.rows.length > 0) {
+      return { status: 409, error: 'That number is already assigned to another practice' };
+    }
+  }
+
+  try {
+    const result = await db.query<{ twilio_phone_number: string | null }>(
+      `UPDATE accountants
+       SET twilio_phone_number = $1, updated_at = NOW()
+       WHERE id = $2
+       RETURNING twilio_phone_number`,
+      [number, accountantId]
+    );
+
+    if (result.rows.length === 0) {
+      return { status: 404, error: 'Practice not found' };
+    }
+
+    return { twilioPhoneNumber: result.rows[0].twilio_phone_number };
+  } catch (error) {
+    // Lost a race with another assignment of the same number (unique index)
+    if ((error as { code?: string }).code === '23505') {
+      return { status: 409, error: 'That number is already assigned to another practice' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find the accountant that owns a Twilio number (the webhook's To)
+ * The shared platform sender never identifies a practice, even if a stale row still holds it.
+ */
+export async function findAccountantByTwilioNumber(toPhone: string): Promise<string | null> {
+  if (!toPhone) {
+    return null;
+  }
+
+  const number = normalizeTwilioPhone(toPhone);
+  if (getPlatformSenderNumbers().includes(number)) {
+    return null;
+  }
+
+  const result = await db.query<{ id: string }>(
+    'SELECT id FROM accountants WHERE twilio_phone_number = $1',
+    [number]
+  );
+
+  return result.rows[0]?.id || null;
+}
+
+/**
+ * Resolve which practice and client an inbound message belongs to
+ * The accountant is resolved from the To number first; only then is the client looked up
+ */
+export async function resolveInboundRoute(fromPhone: string, toPhone: string): Promise<InboundRoute> {
+  const clientPhone = normalizeTwilioPhone(fromPhone);
+  const accountantId = await findAccountantByTwilioNumber(toPhone);
+
+  if (accountantId) {
+    const clientResult = await db.query<Client>(
+      `SELECT * FROM clients WHERE phone = $1 AND accountant_id = $2`,
+      [clientPhone, accountantId]
+    );
+
+    return clientResult.rows[0]
+      ? { type: 'client', accountantId, client: clientResult.rows[0] }
+      : { type: 'unknown', accountantId };
+  }
+
+  // No practice owns the To number - fall back to a phone lookup across practices
+  const clientResult = await db.query<Client>(
+    `SELECT * FROM clients WHERE phone = $1 ORDER BY created_at ASC`,
+    [clientPhone]
+  );
+
+  if (clientResult.rows.length === 0) {
+    return { type: 'unknown', accountantId: null };
+  }
+
+  if (clientResult.rows.length === 1) {
+    const client = clientResult.rows[0];
+    return { type: 'client', accountantId: client.accountant_id, client };
+  }
+
+  return { type: 'ambiguous', candidates: clientResult.rows };
+}
+
+/**
+ * Handle an opt-out keyword (STOP, UNSUBSCRIBE or a practice's own synonym)
+ *
+ * The sender is suppressed for every practice the message could belong to, instead of
+ * the message being stored or filed. Returns false if the message isn't an opt-out.
+ */
+export async function handleOptOutMessage(webhook: TwilioWebhookPayload, route: InboundRoute): Promise<boolean> {
+  let targets: Array<{ accountantId: string; client: Client | null }> = [];
+
+  switch (route.type) {
+    case 'client':
+      targets = [{ accountantId: route.accountantId, client: route.client }];
+      break;
+    case 'ambiguous':
+      targets = route.candidates.map(candidate => ({ accountantId: candidate.accountant_id, client: candidate }));
+      break;
+    case 'unknown':
+      targets = route.accountantId ? [{ accountantId: route.accountantId, client: null }] : [];
+      break;
+  }
+
+  let optedOut = false;
+
+  for (const target of targets) {
+    const keyword = matchOptOutKeyword(webhook.Body, await getOptOutKeywords(target.accountantId));
+    if (!keyword) {
+      continue;
+    }
+
+    optedOut = true;
+    await recordOptOut({
+      accountantId: target.accountantId,
+      phone: webhook.From,
+      clientId: target.client?.id || null,
+      clientName: target.client?.name || null,
+      keyword,
+      body: webhook.Body,
+      twilioSid: webhook.MessageSid
+    });
+  }
+
+  return optedOut;
+}
+
+/**
+ * Park a message whose sender belongs to several practices until one of them claims it
+ * Each candidate practice gets a notification. Returns false if it was already held.
+ */
+export async function holdAmbiguousMessage(
+  webhook: TwilioWebhookPayload,
+  rawPayload: Record<string, any>,
+  candidates: Client[]
+): Promise<boolean> {
+  const accountantIds = [...new Set(candidates.map(candidate => candidate.accountant_id))];
+
+  const result = await db.query<{ id: string }>(
+    `INSERT INTO held_inbound_messages
+     (twilio_sid, from_phone, to_phone, body, num_media, payload, candidate_accountant_ids)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (twilio_sid) DO NOTHING
+     RETURNING id`,
+    [
+      webhook.MessageSid,
+      normalizeTwilioPhone(webhook.From),
+      normalizeTwilioPhone(webhook.To),
+      webhook.Body,
+      webhook.media.length,
+      JSON.stringify(rawPayload),
+      accountantIds
+    ]
+  );
+
+  if (result.rows.length === 0) {
+    return false;
+  }
+
+  for (const candidate of candidates) {
+    await createNotification(
+      candidate.accountant_id,
+      'inbound_ambiguous',
+      'Message Needs Claiming',
+      `A message from ${candidate.name} (${candidate.phone}) matches clients at more than one practice. Claim it to file it against your client.`,
+      candidate.name
+    );
+  }
+
+  console.log(`⏸️ Held ambiguous message ${webhook.MessageSid} for ${accountantIds.length} practices`);
+  return true;
+}
+
+/**
+ * Store an inbound message for a resolved client and file any attachments
+ * against the campaign it belongs to
+ */
+export async function processInboundMessage(
+  webhook: TwilioWebhookPayload,
+  client: Client
+): Promise<'processed' | 'duplicate' | 'no_campaign' | 'unassigned'> {
+  // Work out which of the client's active campaigns this message is for
+  const resolution = await resolveCampaignForMessage(
+    client,
+    webhook.Body,
+    webhook.media.map(media => media.contentType)
+  );
+
+  if (resolution.type === 'none') {
+    console.log(`⚠️ No active campaign for client: ${client.name} - adding to inbox`);
+    const added = await addToInbox(webhook, client.accountant_id, 'no_active_campaign', client);
+    return added ? 'no_campaign' : 'duplicate';
+  }
+
+  // When several campaigns fit equally, documents are parked as unassigned for triage
+  const campaign = resolution.type === 'resolved' ? resolution.campaign : null;
+
+  if (campaign) {
+    console.log(`🎯 Matched ${client.name} to campaign "${campaign.name}" (${resolution.type === 'resolved' ? resolution.reason : ''})`);
+  } else {
+    console.log(`❓ ${client.name} matches ${resolution.type === 'ambiguous' ? resolution.candidates.length : 0} campaigns equally - leaving unassigned`);
+  }
+
+  // Store incoming message in database
+  // The webhook has already claimed the MessageSid; the unique index still guards
+  // replays of a held message, which come through here without a fresh claim
+  const messageResult = await db.query<Message>(
+    `INSERT INTO messages
+     (accountant_id, client_id, campaign_id, direction, sender, body, twilio_sid)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (twilio_sid) DO NOTHING
+     RETURNING *`,
+    [
+      client.accountant_id,
+      client.id,
+      campaign?.id || null,
+      'inbound',
+      client.phone,
+      webhook.Body,
+      webhook.MessageSid
+    ]
+  );
+
+  if (messageResult.rows.length === 0) {
+    console.log(`🔁 Message ${webhook.MessageSid} already stored by a concurrent delivery, skipping`);
+    return 'duplicate';
+  }
+
+  console.log(`✅ Stored message from ${client.name}: "${webhook.Body}"`);
+
+  // Check if message has media (document/image)
+  // Clients often send several photos of a multi-page statement in one message
+  if (webhook.media.length > 0) {
+    console.log(`📎 ${webhook.media.length} media attachment(s) received`);
+
+    const documents: Document[] = [];
+
+    for (const [mediaIndex, media] of webhook.media.entries()) {
+      console.log(`📎 Media received: ${media.contentType} - ${media.url}`);
+
+      // Store document in database (one row per attachment of this MessageSid)
+      const documentResult = await db.query<Document>(
+        `INSERT INTO documents
+         (accountant_id, client_id, campaign_id, original_url, mime_type, conversion_status,
+          twilio_message_sid, media_index)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (twilio_message_sid, media_index) DO NOTHING
+         RETURNING *`,
+        [
+          client.accountant_id,
+          client.id,
+          campaign?.id || null,
+          media.url,
+          media.contentType,
+          campaign ? 'pending_upload' : 'unassigned',
+          webhook.MessageSid,
+          mediaIndex
+        ]
+      );
+
+      if (documentResult.rows[0]) {
+        documents.push(documentResult.rows[0]);
+      }
+    }
+
+    if (!campaign) {
+      const candidates = resolution.type === 'ambiguous' ? resolution.candidates : [];
+
+      await createNotification(
+        client.accountant_id,
+        'document_unassigned',
+        'Document Needs Assigning',
+        `${client.name} sent ${documents.length > 1 ? `${documents.length} documents` : 'a document'} that could belong to ${candidates.map(candidate => `"${candidate.name}"`).join(' or ')}. Assign it to the right campaign.`,
+        client.name
+      );
+
+      console.log(`📥 ${documents.length} document(s) from ${client.name} parked as unassigned`);
+      return 'unassigned';
+    }
+
+    await markDocumentsReceived(client, campaign, documents);
+  }
+
+  // Check if we should respond to this message
+  // Note: All AI responses are disabled because WhatsApp Business API requires
+  // approved templates for all business-initiated messages. Use templates only.
+  const shouldRespond = false; // Disabled - use templates instead
+
+  if (shouldRespond && campaign) {
+    // Reply once the message is committed, so a rolled-back webhook that Twilio retries doesn't reply twice
+    const replyCampaign = campaign;
+    db.afterCommit(async () => {
+      // Get accountant details for response
+      const accountantResult = await db.query<{
+        practice_name: string;
+        amy_name: string;
+        contact_details: string | null;
+      }>(
+        `SELECT practice_name, amy_name, contact_details FROM accountants WHERE id = $1`,
+        [replyCampaign.accountant_id]
+      );
+      const practiceName = accountantResult.rows[0]?.practice_name || 'your accountant';
+      const assistantName = accountantResult.rows[0]?.amy_name || 'Amy';
+      const contactDetails = accountantResult.rows[0]?.contact_details || null;
+
+      // Generate assistant's response using Claude
+      const assistantResponse = await generateResponse(
+        client.id,
+        client.name,
+        webhook.Body,
+        replyCampaign.id,
+        practiceName,
+        replyCampaign.document_type,
+        replyCampaign.period,
+        assistantName,
+        contactDetails
+      );
+
+      // Send assistant's response
+      await sendWhatsApp(
+        client.phone,
+        assistantResponse,
+        replyCampaign.accountant_id,
+        client.id,
+        replyCampaign.id
+      );
+
+      console.log(`✅ ${assistantName} responded to ${client.name}: "${assistantResponse}"`);
+    });
+  } else {
+    console.log(`⏭️ Skipped response to ${client.name} - message doesn't require reply`);
+  }
+
+  return 'processed';
+}
+
+/**
+ * Put a campaign client's new documents up for review and queue Drive upload/conversion
+ * Each document is matched to a checklist item where possible; the client only counts
+ * as received once the accountant has accepted every required item.
+ * Used by the webhook and when an accountant assigns an unassigned document to a campaign
+ */
+export async function markDocumentsReceived(
+  client: Client,
+  campaign: Campaign,
+  documents: Document[]
+): Promise<void> {
+  const campaignClientResult = await db.query<{ id: string }>(
+    `SELECT id FROM campaign_clients WHERE campaign_id = $1 AND client_id = $2`,
+    [campaign.id, client.id]
+  );
+  const campaignClientId = campaignClientResult.rows[0]?.id;
+
+  const matchedLabels: string[] = [];
+  let unmatched = 0;
+
+  for (const document of documents) {
+    // The message the document came with says what it is, e.g. "here's my P60"
+    const messageResult = document.twilio_message_sid
+      ? await db.query<{ body: string | null }>(
+          `SELECT body FROM messages WHERE twilio_sid = $1 LIMIT 1`,
+          [document.twilio_message_sid]
+        )
+      : null;
+    const messageBody = messageResult?.rows[0]?.body || '';
+
+    const item = campaignClientId
+      ? await matchDocumentToItem(campaignClientId, messageBody, document.mime_type)
+      : null;
+
+    if (!item || !campaignClientId) {
+      unmatched++;
+      continue;
+    }
+
+    await db.query(
+      `UPDATE documents SET campaign_item_id = $1 WHERE id = $2`,
+      [item.id, document.id]
+    );
+    document.campaign_item_id = item.id;
+
+    // An item that's already been accepted stays received
+    if (item.status !== 'received') {
+      await setClientItemStatus(campaignClientId, item.id, 'awaiting_review');
+    }
+    if (!matchedLabels.includes(item.label)) {
+      matchedLabels.push(item.label);
+    }
+  }
+
+  // Documents we couldn't match wait in the review queue for the accountant to pick an item;
+  // the client's status (and so their reminders) still follows the checklist
+  if (campaignClientId) {
+    await refreshClientStatus(campaignClientId);
+  }
+
+  if (unmatched > 0) {
+    console.log(`📋 ${unmatched} document(s) from ${client.name} need an item picked during review`);
+  }
+
+  const itemNote = matchedLabels.length > 0 ? ` (${formatItemList(matchedLabels)})` : '';
+  console.log(`✅ ${documents.length} document(s) stored for ${client.name}${itemNote}`);
+
+  // Create notification for document received
+  await createNotification(
+    campaign.accountant_id,
+    'client_response',
+    'Document Received',
+    documents.length > 1
+      ? `${client.name} has sent ${documents.length} documents${itemNote} - ready for review`
+      : `${client.name} has sent a document${itemNote} - ready for review`,
+    client.name,
+    campaign.name
+  );
+
+  // Queue each document for Drive upload + CSV conversion so we can respond to Twilio quickly
+  // Pages are only numbered when the message carried more than one attachment
+  for (const [index, document] of documents.entries()) {
+    const pageNumber = documents.length > 1 ? index + 1 : undefined;
+    await enqueueDocumentProcessing(document.id, pageNumber);
+  }
+}
@@ -0,0 +1,103 @@
+import { db } from '../lib/db.js';
+import { TwilioWebhookPayload } from '../lib/twilio.js';
+import { createNotification } from '../routes/notifications.js';
+import { enqueueJob } from './job-queue.js';
+import { UploadInboxAttachmentJob } from './document-jobs.js';
+import { Client } from '../types/index.js';
+
+export type InboxReason = 'unknown_sender' | 'no_active_campaign';
+
+export interface InboxMessage {
+  id: string;
+  accountant_id: string;
+  client_id: string | null;
+  campaign_id: string | null;
+  twilio_sid: string;
+  from_phone: string;
+  profile_name: string | null;
+  body: string | null;
+  reason: InboxReason;
+  status: string;
+  resolved_at: Date | null;
+  created_at: Date;
+}
+
+export interface InboxAttachment {
+  id: string;
+  inbox_message_id: string;
+  media_index: number;
+  original_url: string;
+  mime_type: string | null;
+  drive_file_id: string | null;
+  drive_file_url: string | null;
+  upload_error: string | null;
+  created_at: Date;
+}
+
+/**
+ * Store an inbound message that couldn't be filed against a campaign
+ * Any media is queued for upload to the Drive "Unsorted" folder.
+ * Returns false if the message was already in the inbox (Twilio retry).
+ */
+export async function addToInbox(
+  webhook: TwilioWebhookPayload,
+  accountantId: string,
+  reason: InboxReason,
+  client?: Client
+): Promise<boolean> {
+  const fromPhone = webhook.From.replace('whatsapp:', '');
+
+  const result = await db.query<InboxMessage>(
+    `INSERT INTO inbox_messages
+     (accountant_id, client_id, twilio_sid, from_phone, profile_name, body, reason)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (twilio_sid) DO NOTHING
+     RETURNING *`,
+    [
+      accountantId,
+      client?.id || null,
+      webhook.MessageSid,
+      fromPhone,
+      webhook.ProfileName || null,
+      webhook.Body,
+      reason
+    ]
+  );
+
+  if (result.rows.length === 0) {
+    return false;
+  }
+
+  const inboxMessage = result.rows[0];
+  const senderName = client?.name || webhook.ProfileName || fromPhone;
+
+  const attachments: InboxAttachment[] = [];
+  for (const [mediaIndex, media] of webhook.media.entries()) {
+    const attachmentResult = await db.query<InboxAttachment>(
+      `INSERT INTO inbox_attachments (inbox_message_id, media_index, original_url, mime_type)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [inboxMessage.id, mediaIndex, media.url, media.contentType]
+    );
+    attachments.push(attachmentResult.rows[0]);
+  }
+
+  console.log(`📥 Added message from ${senderName} to inbox (${reason}, ${attachments.length} attachment(s))`);
+
+  await createNotification(
+    accountantId,
+    'inbox_message',
+    reason === 'unknown_sender' ? 'Message From Unknown Number' : 'Message Outside a Campaign',
+    reason === 'unknown_sender'
+      ? `${senderName} sent a message${attachments.length > 0 ? ` with ${attachments.length} attachment(s)` : ''} but isn't one of your clients`
+      : `${senderName} sent a message${attachments.length > 0 ? ` with ${attachments.length} attachment(s)` : ''} but isn't in an active campaign`,
+    client?.name
+  );
+
+  // Upload media via the job queue so we can respond to Twilio quickly
+  for (const attachment of attachments) {
+    await enqueueJob<UploadInboxAttachmentJob>('upload_inbox_attachment', { attachmentId: attachment.id });
+  }
+
+  return true;
+}
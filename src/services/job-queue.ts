@@ -0,0 +1,212 @@
+import { db } from '../lib/db.js';
+
+export interface Job<T = Record<string, any>> {
+  id: string;
+  type: string;
+  payload: T;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_until: Date | null;
+  last_error: string | null;
+  completed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type JobHandler<T = any> = (payload: T, job: Job<T>) => Promise<void>;
+
+interface HandlerOptions {
+  // How long a claimed job stays invisible to other workers before it's considered abandoned
+  visibilityTimeoutSeconds?: number;
+}
+
+// Worker tuning
+const POLL_INTERVAL_MS = 2000;
+const DEFAULT_VISIBILITY_TIMEOUT_SECONDS = 300;
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 60 * 60;
+
+const handlers = new Map<string, { handler: JobHandler; visibilityTimeoutSeconds: number }>();
+let workerRunning = false;
+
+/**
+ * Register the function that runs jobs of a given type
+ */
+export function registerJobHandler<T>(
+  type: string,
+  handler: JobHandler<T>,
+  options: HandlerOptions = {}
+): void {
+  handlers.set(type, {
+    handler: handler as JobHandler,
+    visibilityTimeoutSeconds: options.visibilityTimeoutSeconds || DEFAULT_VISIBILITY_TIMEOUT_SECONDS,
+  });
+}
+
+/**
+ * Add a job to the queue
+ * @param type - Job type (must have a registered handler)
+ * @param payload - JSON payload passed to the handler
+ * @param options.delaySeconds - Don't run before this many seconds from now
+ * @param options.maxAttempts - Give up after this many failed attempts
+ */
+export async function enqueueJob<T extends Record<string, any>>(
+  type: string,
+  payload: T,
+  options: { delaySeconds?: number; maxAttempts?: number } = {}
+): Promise<Job<T>> {
+  const result = await db.query<Job<T>>(
+    `INSERT INTO jobs (type, payload, max_attempts, run_at)
+     VALUES ($1, $2, $3, NOW() + ($4 || ' seconds')::INTERVAL)
+     RETURNING *`,
+    [type, JSON.stringify(payload), options.maxAttempts || 5, options.delaySeconds || 0]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Exponential backoff: 30s, 60s, 120s, ... capped at an hour
+ */
+export function getBackoffSeconds(attempts: number): number {
+  return Math.min(BACKOFF_BASE_SECONDS * Math.pow(2, Math.max(attempts - 1, 0)), BACKOFF_MAX_SECONDS);
+}
+
+/**
+ * Claim the next due job
+ * Picks queued jobs whose run_at has passed, plus running jobs whose visibility
+ * timeout expired (the worker that held them died mid-job)
+ */
+async function claimNextJob(): Promise<Job | null> {
+  const types = [...handlers.keys()];
+
+  if (types.length === 0) {
+    return null;
+  }
+
+  const result = await db.query<Job>(
+    `UPDATE jobs
+     SET status = 'running',
+         attempts = attempts + 1,
+         locked_until = NOW() + ($2 || ' seconds')::INTERVAL,
+         updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM jobs
+       WHERE type = ANY($1)
+         AND (
+           (status = 'queued' AND run_at <= NOW())
+           OR (status = 'running' AND locked_until < NOW())
+         )
+       ORDER BY run_at
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [types, DEFAULT_VISIBILITY_TIMEOUT_SECONDS]
+  );
+
+  const job = result.rows[0];
+  if (!job) {
+    return null;
+  }
+
+  // Apply the handler's own visibility timeout if it differs from the default
+  const { visibilityTimeoutSeconds } = handlers.get(job.type)!;
+  if (visibilityTimeoutSeconds !== DEFAULT_VISIBILITY_TIMEOUT_SECONDS) {
+    await db.query(
+      `UPDATE jobs SET locked_until = NOW() + ($1 || ' seconds')::INTERVAL WHERE id = $2`,
+      [visibilityTimeoutSeconds, job.id]
+    );
+  }
+
+  return job;
+}
+
+/**
+ * Run a claimed job and record the outcome
+ */
+async function runJob(job: Job): Promise<void> {
+  const { handler } = handlers.get(job.type)!;
+
+  try {
+    await handler(job.payload, job);
+
+    await db.query(
+      `UPDATE jobs
+       SET status = 'completed', completed_at = NOW(), locked_until = NULL, last_error = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [job.id]
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts >= job.max_attempts) {
+      console.error(`❌ [Job Queue] ${job.type} job ${job.id} failed permanently after ${job.attempts} attempts:`, errorMessage);
+
+      await db.query(
+        `UPDATE jobs
+         SET status = 'failed', last_error = $1, locked_until = NULL, updated_at = NOW()
+         WHERE id = $2`,
+        [errorMessage, job.id]
+      );
+      return;
+    }
+
+    const backoffSeconds = getBackoffSeconds(job.attempts);
+    console.warn(`⚠️ [Job Queue] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying in ${backoffSeconds}s:`, errorMessage);
+
+    await db.query(
+      `UPDATE jobs
+       SET status = 'queued',
+           last_error = $1,
+           locked_until = NULL,
+           run_at = NOW() + ($2 || ' seconds')::INTERVAL,
+           updated_at = NOW()
+       WHERE id = $3`,
+      [errorMessage, backoffSeconds, job.id]
+    );
+  }
+}
+
+/**
+ * Start the worker loop
+ * Runs one job at a time; sleeps when the queue is empty. Jobs left running by a
+ * previous process are picked up again once their visibility timeout passes.
+ */
+export function startJobWorker(): void {
+  if (workerRunning) {
+    return;
+  }
+  workerRunning = true;
+
+  console.log(`✅ Job worker started (handlers: ${[...handlers.keys()].join(', ') || 'none'})`);
+
+  const loop = async (): Promise<void> => {
+    while (workerRunning) {
+      try {
+        const job = await claimNextJob();
+
+        if (!job) {
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+          continue;
+        }
+
+        await runJob(job);
+      } catch (error) {
+        console.error('❌ [Job Queue] Worker loop error:', error);
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    }
+  };
+
+  loop();
+}
+
+/**
+ * Stop the worker loop after the current job finishes
+ */
+export function stopJobWorker(): void {
+  workerRunning = false;
+}
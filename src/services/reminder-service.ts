@@ -1,334 +1,612 @@
 import cron from 'node-cron';
-import { db } from '../lib/db.js';
-import { sendDocumentReminder } from '../lib/twilio.js';
+import { db, withAdvisoryLock } from '../lib/db.js';
+import { sendDocumentReminder, sendDocumentRequest } from '../lib/twilio.js';
+import { sendEmail } from '../lib/email.js';
+import { clientDocumentReminderEmail } from '../lib/email-templates.js';
+import { DEFAULT_TIMEZONE, isValidTimezone, getSendWindowDate, getLocalDateKey, zonedTimeToUtc } from '../lib/timezone.js';
+import { createNotification } from '../routes/notifications.js';
+import { HolidayCalendar, getHolidayCalendar, addWorkingDays, isWorkingDay } from './holidays.js';
+import { getReminderSteps } from './reminder-steps.js';
+import { escalateFailedClient } from './escalation.js';
+import { completeCampaignIfDone, completeFinishedCampaigns } from './campaign-completion.js';
+import { getDocumentDescription } from './campaign-items.js';
+import {
+  ContactPreferences,
+  ContactDeferReason,
+  CONTACT_PREFERENCE_COLUMNS,
+  isInQuietHours,
+  recordDeferral,
+  clearDeferral
+} from './contact-preferences.js';
+import { ReminderStep, ReminderStepLog } from '../types/index.js';
 
-interface CampaignClient {
-  id: string;
+/**
+ * A pending campaign client together with the next reminder step they haven't been through
+ */
+export interface DueReminderStep extends ContactPreferences {
+  campaign_client_id: string;
   campaign_id: string;
+  campaign_name: string;
   client_id: string;
   client_name: string;
   client_phone: string;
-  first_message_sent_at: Date;
-  status: string;
+  client_email: string | null;
   accountant_id: string;
   practice_name: string;
-  amy_name: string;
   document_type: string;
   period: string;
-  reminder_day_3: boolean;
-  reminder_day_6: boolean;
-  flag_after_day_9: boolean;
-  // New custom schedule fields
-  reminder_1_days: number;
-  reminder_2_days: number;
-  reminder_3_days: number;
+  first_message_sent_at: Date;
+  // When reminder delays count from: the first message, or when the sequence was restarted
+  reminders_from: Date;
+  step_id: string;
+  step_order: number;
+  delay_days: number;
+  channel: ReminderStep['channel'];
+  template: ReminderStep['template'];
+  action: ReminderStep['action'];
   reminder_send_time: string;
   reminder_timezone: string;
+  business_days_only: boolean;
+  // Local date the step becomes due on, for business-day campaigns
+  due_date: string | null;
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How far past a step's due time the preview looks for a pass that runs it
+const PREVIEW_HORIZON_DAYS = 31;
+
+export type ReminderDeferReason = 'outside_send_window' | 'non_working_day' | ContactDeferReason;
+
 /**
- * Check if we should send reminders at this time
- * Compares current time with the campaign's configured send time
+ * A due step with the decision on whether it runs in this scheduler pass
  */
-function shouldSendNow(sendTime: string, timezone: string): boolean {
-  try {
-    const now = new Date();
-    const [hours, minutes] = sendTime.split(':').map(Number);
+export interface EvaluatedReminderStep extends DueReminderStep {
+  run_now: boolean;
+  deferred_reason: ReminderDeferReason | null;
+}
 
-    // Get current hour and minute in the specified timezone
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
+export interface ReminderPreviewStep {
+  step_id: string;
+  step_order: number;
+  delay_days: number;
+  channel: ReminderStep['channel'];
+  template: ReminderStep['template'];
+  action: ReminderStep['action'];
+  due_date: string | null;
+  // At the simulated time: is the delay over, and would a scheduler pass run it
+  due: boolean;
+  run_now: boolean;
+  deferred_reason: ReminderDeferReason | null;
+  // Projected scheduler pass that runs it (null = not within the preview horizon)
+  scheduled_for: Date | null;
+}
 
-    // Allow sending within a 1-hour window of the specified time
-    // This accounts for the cron running every hour
-    const timeDiff = Math.abs((currentHour * 60 + currentMinute) - (hours * 60 + minutes));
+export interface ReminderPreviewClient {
+  campaign_client_id: string;
+  client_id: string;
+  client_name: string;
+  first_message_sent_at: Date;
+  reminders_from: Date;
+  steps: ReminderPreviewStep[];
+}
+
+export interface ReminderRunResults {
+  sent: number;
+  skipped: number;
+  deferred: number;
+  flagged: number;
+  failed: number;
+  errors: string[];
+}
 
-    return timeDiff < 60; // Within 1 hour window
+/**
+ * Use the campaign's timezone, falling back to the default if it isn't one Intl knows
+ */
+function resolveTimezone(timezone: string): string {
+  if (isValidTimezone(timezone)) {
+    return timezone;
+  }
+
+  console.warn(`⚠️ Unknown timezone "${timezone}", using ${DEFAULT_TIMEZONE}`);
+  return DEFAULT_TIMEZONE;
+}
+
+/**
+ * Local date of the send window `now` is in, or null if it isn't in one
+ */
+function getWindowDate(sendTime: string, timezone: string, now: Date): string | null {
+  try {
+    return getSendWindowDate(sendTime || '10:00', resolveTimezone(timezone), now);
   } catch (error) {
     console.error('Error checking send time:', error);
-    return true; // Default to sending if there's an error
+    return getLocalDateKey(now, resolveTimezone(timezone)); // Default to sending if there's an error
   }
 }
 
 /**
- * Send First Reminder (Reminder 1)
- * Sends reminder to clients based on campaign's custom reminder_1_days setting
+ * Check if we should send reminders at this time
+ * Compares the current wall-clock time in the campaign's timezone with its configured send time
  */
-export async function sendReminder1(): Promise<{ success: number; failed: number; errors: string[] }> {
-  console.log('🔔 [Reminder Service] Checking for Reminder 1...');
+export function shouldSendNow(sendTime: string, timezone: string, now: Date = new Date()): boolean {
+  return getWindowDate(sendTime, timezone, now) !== null;
+}
 
-  const results = {
-    success: 0,
-    failed: 0,
-    errors: [] as string[],
-  };
+/**
+ * Next reminder step for each pending campaign client
+ *
+ * Steps run strictly in order, so a client is only ever considered for the lowest step
+ * they have no log entry for. With `dueBy`, rows that can't possibly be due yet are
+ * left out (the exact check is isStepDue).
+ */
+async function queryNextReminderSteps(options: { campaignId?: string; dueBy?: Date }): Promise<DueReminderStep[]> {
+  const result = await db.query<DueReminderStep>(
+    `SELECT * FROM (
+       SELECT DISTINCT ON (cc.id)
+         cc.id as campaign_client_id,
+         cc.campaign_id,
+         camp.name as campaign_name,
+         cc.client_id,
+         c.name as client_name,
+         c.phone as client_phone,
+         c.email as client_email,
+         ${CONTACT_PREFERENCE_COLUMNS},
+         camp.accountant_id,
+         acc.practice_name,
+         camp.document_type,
+         camp.period,
+         cc.first_message_sent_at,
+         COALESCE(cc.reminders_restarted_at, cc.first_message_sent_at) as reminders_from,
+         s.id as step_id,
+         s.step_order,
+         s.delay_days,
+         s.channel,
+         s.template,
+         s.action,
+         camp.reminder_send_time,
+         COALESCE(camp.reminder_timezone, acc.timezone) as reminder_timezone,
+         COALESCE(camp.business_days_only, false) as business_days_only,
+         NULL as due_date
+       FROM campaign_clients cc
+       JOIN clients c ON cc.client_id = c.id
+       JOIN campaigns camp ON cc.campaign_id = camp.id
+       JOIN accountants acc ON camp.accountant_id = acc.id
+       JOIN campaign_reminder_steps s ON s.campaign_id = camp.id
+       WHERE cc.status = 'pending'
+         AND cc.first_message_sent_at IS NOT NULL
+         AND camp.status = 'active'
+         AND ($1::uuid IS NULL OR cc.campaign_id = $1::uuid)
+         AND NOT EXISTS (
+           SELECT 1 FROM suppressed_numbers sn
+           WHERE sn.accountant_id = camp.accountant_id AND sn.phone = c.phone
+         )
+         AND NOT EXISTS (
+           SELECT 1 FROM reminder_step_log l
+           WHERE l.campaign_client_id = cc.id AND l.step_id = s.id
+         )
+       ORDER BY cc.id, s.step_order
+     ) next_step
+     WHERE $2::timestamptz IS NULL
+        OR reminders_from <= $2::timestamptz - ((delay_days - 1) || ' days')::INTERVAL
+     ORDER BY campaign_id, step_order`,
+    [options.campaignId ?? null, options.dueBy ?? null]
+  );
+
+  return result.rows;
+}
 
-  try {
-    // Find clients who need first reminder based on custom schedule
-    // Uses reminder_1_days from campaign settings
-    const query = `
-      SELECT
-        cc.id,
-        cc.campaign_id,
-        cc.client_id,
-        c.name as client_name,
-        c.phone as client_phone,
-        cc.first_message_sent_at,
-        cc.status,
-        camp.accountant_id,
-        acc.practice_name,
-        acc.amy_name,
-        camp.document_type,
-        camp.period,
-        camp.reminder_day_3,
-        camp.reminder_day_6,
-        camp.flag_after_day_9,
-        camp.reminder_1_days,
-        camp.reminder_2_days,
-        camp.reminder_3_days,
-        camp.reminder_send_time,
-        camp.reminder_timezone
-      FROM campaign_clients cc
-      JOIN clients c ON cc.client_id = c.id
-      JOIN campaigns camp ON cc.campaign_id = camp.id
-      JOIN accountants acc ON camp.accountant_id = acc.id
-      WHERE cc.status = 'pending'
-        AND camp.reminder_day_3 = true
-        AND cc.reminder_3_sent_at IS NULL
-        AND cc.first_message_sent_at IS NOT NULL
-        AND cc.first_message_sent_at <= NOW() - (camp.reminder_1_days || ' days')::INTERVAL
-    `;
-
-    const result = await db.query<CampaignClient>(query);
-
-    if (result.rows.length === 0) {
-      console.log('📭 No clients need Reminder 1');
-      return results;
-    }
+/**
+ * Fill in the local due date for business-day campaigns
+ * The delay counts working days after the first message (or the restart), using the accountant's holidays.
+ */
+function withDueDate(step: DueReminderStep, holidays: HolidayCalendar): DueReminderStep {
+  if (!step.business_days_only) {
+    return { ...step, due_date: null };
+  }
 
-    console.log(`📬 Found ${result.rows.length} clients needing Reminder 1`);
+  const timezone = resolveTimezone(step.reminder_timezone);
+  const startDate = getLocalDateKey(new Date(step.reminders_from), timezone);
 
-    // Group clients by send time to check if we should send now
-    const clientsToSend = result.rows.filter(client =>
-      shouldSendNow(client.reminder_send_time, client.reminder_timezone)
-    );
+  return { ...step, due_date: addWorkingDays(startDate, step.delay_days, holidays) };
+}
 
-    if (clientsToSend.length === 0) {
-      console.log('⏰ Not the right time to send reminders yet');
-      return results;
+/**
+ * Whether a step's delay has passed at `now`
+ */
+function isStepDue(step: DueReminderStep, now: Date): boolean {
+  if (step.due_date) {
+    return step.due_date <= getLocalDateKey(now, resolveTimezone(step.reminder_timezone));
+  }
+
+  return new Date(step.reminders_from).getTime() + step.delay_days * DAY_MS <= now.getTime();
+}
+
+/**
+ * Decide whether a due step runs in a scheduler pass at `now`
+ *
+ * Steps that send a message wait for the send window - the client's preferred contact
+ * time if they have one, otherwise the campaign's - and never go out in the client's
+ * quiet hours. Action-only steps run straight away. Nothing runs before a client's
+ * do-not-contact date, and business-day campaigns never run on a weekend or holiday;
+ * either defers the step to a later window rather than skipping it.
+ */
+function decideStepRun(
+  step: DueReminderStep,
+  now: Date,
+  holidays: HolidayCalendar
+): Pick<EvaluatedReminderStep, 'run_now' | 'deferred_reason'> {
+  const timezone = resolveTimezone(step.reminder_timezone);
+  const runDate = step.channel
+    ? getWindowDate(step.preferred_contact_time || step.reminder_send_time, timezone, now)
+    : getLocalDateKey(now, timezone);
+
+  let deferredReason: ReminderDeferReason | null = null;
+
+  if (!runDate || (step.due_date && runDate < step.due_date)) {
+    deferredReason = 'outside_send_window';
+  } else if (step.do_not_contact_until && runDate < step.do_not_contact_until) {
+    deferredReason = 'do_not_contact';
+  } else if (step.business_days_only && !isWorkingDay(runDate, holidays)) {
+    deferredReason = 'non_working_day';
+  } else if (step.channel && isInQuietHours(step, timezone, now)) {
+    deferredReason = 'quiet_hours';
+  }
+
+  return { run_now: deferredReason === null, deferred_reason: deferredReason };
+}
+
+/**
+ * Find the next reminder step that is due for each pending campaign client
+ */
+export async function findDueReminderSteps(
+  now: Date = new Date(),
+  calendars: Map<string, HolidayCalendar> = new Map(),
+  campaignId?: string
+): Promise<DueReminderStep[]> {
+  const candidates = await queryNextReminderSteps({ campaignId, dueBy: now });
+  const dueSteps: DueReminderStep[] = [];
+
+  for (const candidate of candidates) {
+    const holidays = await getHolidayCalendar(candidate.accountant_id, calendars);
+    const step = withDueDate(candidate, holidays);
+
+    if (isStepDue(step, now)) {
+      dueSteps.push(step);
     }
+  }
 
-    console.log(`⏰ Sending to ${clientsToSend.length} clients (right time window)`);
+  return dueSteps;
+}
 
-    // Send reminder to each client
-    for (const client of clientsToSend) {
-      try {
-        // Create document description (e.g., "January 2026 bank statement")
-        const documentDescription = `${client.period} ${client.document_type.replace('_', ' ')}`;
-
-        // Send WhatsApp reminder using approved template
-        await sendDocumentReminder(
-          client.client_phone,
-          client.client_name,
-          documentDescription,
-          client.accountant_id,
-          client.client_id,
-          client.campaign_id
-        );
-
-        // Update campaign_clients to mark reminder 1 sent
-        await db.query(
-          `UPDATE campaign_clients
-           SET reminder_3_sent_at = NOW()
-           WHERE id = $1`,
-          [client.id]
-        );
-
-        results.success++;
-        console.log(`✅ Reminder 1 (Day ${client.reminder_1_days}) sent to ${client.client_name} (${client.client_phone})`);
-      } catch (error) {
-        results.failed++;
-        const errorMsg = `Failed to send Reminder 1 to ${client.client_name}: ${error}`;
-        results.errors.push(errorMsg);
-        console.error(`❌ ${errorMsg}`);
-      }
+/**
+ * Decide which due steps run in a scheduler pass at `now`
+ */
+export async function evaluateReminderSteps(now: Date = new Date(), campaignId?: string): Promise<EvaluatedReminderStep[]> {
+  const calendars = new Map<string, HolidayCalendar>();
+  const dueSteps = await findDueReminderSteps(now, calendars, campaignId);
+
+  const evaluated: EvaluatedReminderStep[] = [];
+
+  for (const step of dueSteps) {
+    const holidays = await getHolidayCalendar(step.accountant_id, calendars);
+    evaluated.push({ ...step, ...decideStepRun(step, now, holidays) });
+  }
+
+  return evaluated;
+}
+
+/**
+ * Top of the hour after `date` - when the hourly scheduler next runs
+ */
+function nextSchedulerRun(date: Date): Date {
+  return new Date((Math.floor(date.getTime() / HOUR_MS) + 1) * HOUR_MS);
+}
+
+/**
+ * First scheduler pass at or after `from` in which the step would run
+ * Looks up to PREVIEW_HORIZON_DAYS past the point the step becomes due.
+ */
+function findStepRunTime(step: DueReminderStep, from: Date, holidays: HolidayCalendar): Date | null {
+  const timezone = resolveTimezone(step.reminder_timezone);
+  const dueAt = step.due_date
+    ? zonedTimeToUtc(...(step.due_date.split('-').map(Number) as [number, number, number]), 0, 0, timezone)
+    : new Date(new Date(step.reminders_from).getTime() + step.delay_days * DAY_MS);
+
+  // Passes happen at `from` and then every hour on the hour
+  let runAt = from;
+  if (dueAt > from) {
+    runAt = dueAt.getTime() % HOUR_MS === 0 ? dueAt : nextSchedulerRun(dueAt);
+  }
+
+  const limit = runAt.getTime() + PREVIEW_HORIZON_DAYS * DAY_MS;
+
+  while (runAt.getTime() <= limit) {
+    if (isStepDue(step, runAt) && decideStepRun(step, runAt, holidays).run_now) {
+      return runAt;
     }
-  } catch (error) {
-    console.error('❌ Error in sendReminder1:', error);
-    results.errors.push(`Database error: ${error}`);
+    runAt = nextSchedulerRun(runAt);
   }
 
-  console.log(`📊 Reminder 1 - Success: ${results.success}, Failed: ${results.failed}`);
-  return results;
+  return null;
 }
 
 /**
- * Send Second Reminder (Reminder 2)
- * Sends second reminder to clients based on campaign's custom reminder_2_days setting
+ * Dry-run a campaign's reminder sequence from a simulated time, without sending anything
+ *
+ * For each pending client this uses the same checks as the scheduler to say whether their
+ * next step would run in a pass at `at`, and projects when each remaining step would run
+ * if the client never responds. A flag or escalate step ends the projection, since the
+ * client is no longer pending after it.
  */
-export async function sendReminder2(): Promise<{ success: number; failed: number; errors: string[] }> {
-  console.log('🔔 [Reminder Service] Checking for Reminder 2...');
+export async function previewReminderSchedule(campaignId: string, at: Date): Promise<ReminderPreviewClient[]> {
+  const calendars = new Map<string, HolidayCalendar>();
+  const nextSteps = await queryNextReminderSteps({ campaignId });
+  const steps = await getReminderSteps(campaignId);
+
+  const preview: ReminderPreviewClient[] = [];
+
+  for (const next of nextSteps) {
+    const holidays = await getHolidayCalendar(next.accountant_id, calendars);
+    const remaining = steps.filter(step => step.step_order >= next.step_order);
+
+    const client: ReminderPreviewClient = {
+      campaign_client_id: next.campaign_client_id,
+      client_id: next.client_id,
+      client_name: next.client_name,
+      first_message_sent_at: next.first_message_sent_at,
+      reminders_from: next.reminders_from,
+      steps: [],
+    };
+
+    let from = at;
+
+    for (const [index, remainingStep] of remaining.entries()) {
+      const step = withDueDate({
+        ...next,
+        step_id: remainingStep.id,
+        step_order: remainingStep.step_order,
+        delay_days: remainingStep.delay_days,
+        channel: remainingStep.channel,
+        template: remainingStep.template,
+        action: remainingStep.action,
+      }, holidays);
+
+      const due = isStepDue(step, at);
+      // Only the next step can run in the pass at `at` itself
+      const decision = index === 0 && due
+        ? decideStepRun(step, at, holidays)
+        : { run_now: false, deferred_reason: null };
+
+      const runAt = findStepRunTime(step, from, holidays);
+
+      client.steps.push({
+        step_id: step.step_id,
+        step_order: step.step_order,
+        delay_days: step.delay_days,
+        channel: step.channel,
+        template: step.template,
+        action: step.action,
+        due_date: step.due_date,
+        due,
+        run_now: decision.run_now,
+        deferred_reason: decision.deferred_reason,
+        scheduled_for: runAt,
+      });
+
+      if (!runAt || step.action) {
+        break;
+      }
 
-  const results = {
-    success: 0,
-    failed: 0,
-    errors: [] as string[],
-  };
+      // One step per client per pass
+      from = nextSchedulerRun(runAt);
+    }
 
-  try {
-    const query = `
-      SELECT
-        cc.id,
-        cc.campaign_id,
-        cc.client_id,
-        c.name as client_name,
-        c.phone as client_phone,
-        cc.first_message_sent_at,
-        cc.status,
-        camp.accountant_id,
-        acc.practice_name,
-        acc.amy_name,
-        camp.document_type,
-        camp.period,
-        camp.reminder_day_3,
-        camp.reminder_day_6,
-        camp.flag_after_day_9,
-        camp.reminder_1_days,
-        camp.reminder_2_days,
-        camp.reminder_3_days,
-        camp.reminder_send_time,
-        camp.reminder_timezone
-      FROM campaign_clients cc
-      JOIN clients c ON cc.client_id = c.id
-      JOIN campaigns camp ON cc.campaign_id = camp.id
-      JOIN accountants acc ON camp.accountant_id = acc.id
-      WHERE cc.status = 'pending'
-        AND camp.reminder_day_6 = true
-        AND cc.reminder_6_sent_at IS NULL
-        AND cc.first_message_sent_at IS NOT NULL
-        AND cc.first_message_sent_at <= NOW() - (camp.reminder_2_days || ' days')::INTERVAL
-    `;
-
-    const result = await db.query<CampaignClient>(query);
-
-    if (result.rows.length === 0) {
-      console.log('📭 No clients need Reminder 2');
-      return results;
+    preview.push(client);
+  }
+
+  return preview;
+}
+
+/**
+ * Send a step's message on its channel
+ * Returns false if the client can't be reached on that channel.
+ */
+async function sendStepMessage(step: DueReminderStep): Promise<boolean> {
+  // Only the items still outstanding (e.g., "January 2026 bank statement and P60")
+  const documentDescription = await getDocumentDescription(step.campaign_client_id, step.period, step.document_type);
+  const isFirstRequest = step.template === 'document_request';
+
+  if (step.channel === 'email') {
+    if (!step.client_email) {
+      return false;
     }
 
-    console.log(`📬 Found ${result.rows.length} clients needing Reminder 2`);
+    const email = clientDocumentReminderEmail(step.client_name, step.practice_name, documentDescription, isFirstRequest);
+    const sent = await sendEmail(step.client_email, email.subject, email.html);
+    if (!sent) {
+      throw new Error(`Email to ${step.client_email} was not sent`);
+    }
+    return true;
+  }
 
-    const clientsToSend = result.rows.filter(client =>
-      shouldSendNow(client.reminder_send_time, client.reminder_timezone)
+  // WhatsApp using approved template
+  if (isFirstRequest) {
+    await sendDocumentRequest(
+      step.client_phone,
+      step.client_name,
+      step.practice_name || 'your accountant',
+      documentDescription,
+      step.accountant_id,
+      step.client_id,
+      step.campaign_id,
+      step.preferred_language
+    );
+  } else {
+    await sendDocumentReminder(
+      step.client_phone,
+      step.client_name,
+      documentDescription,
+      step.accountant_id,
+      step.client_id,
+      step.campaign_id,
+      step.preferred_language
     );
+  }
+  return true;
+}
 
-    if (clientsToSend.length === 0) {
-      console.log('⏰ Not the right time to send reminders yet');
-      return results;
-    }
+/**
+ * Flag a client as failed and run the practice's escalation chain
+ * Escalate steps always notify the accountant, even if the chain doesn't.
+ */
+async function runStepAction(step: DueReminderStep): Promise<void> {
+  await db.query(
+    `UPDATE campaign_clients
+     SET status = 'failed', stuck_at = NOW()
+     WHERE id = $1`,
+    [step.campaign_client_id]
+  );
+
+  await escalateFailedClient(step.campaign_client_id, { alwaysNotify: step.action === 'escalate' });
+
+  // The last open client failing can finish an all_resolved campaign
+  await completeCampaignIfDone(step.campaign_id);
+}
 
-    console.log(`⏰ Sending to ${clientsToSend.length} clients (right time window)`);
+/**
+ * Claim a step for a client before running it
+ *
+ * The log row is inserted first, and only if the client is still pending, so two
+ * overlapping runs can't both send the same step. Returns false if it's already claimed.
+ */
+async function claimReminderStep(step: DueReminderStep): Promise<boolean> {
+  const result = await db.query(
+    `INSERT INTO reminder_step_log (campaign_client_id, step_id, status)
+     SELECT id, $2, 'claimed'
+     FROM campaign_clients
+     WHERE id = $1 AND status = 'pending'
+     ON CONFLICT (campaign_client_id, step_id) DO NOTHING
+     RETURNING id`,
+    [step.campaign_client_id, step.step_id]
+  );
+
+  return result.rows.length > 0;
+}
 
-    for (const client of clientsToSend) {
-      try {
-        // Create document description (e.g., "January 2026 bank statement")
-        const documentDescription = `${client.period} ${client.document_type.replace('_', ' ')}`;
-
-        // Send WhatsApp reminder using approved template
-        await sendDocumentReminder(
-          client.client_phone,
-          client.client_name,
-          documentDescription,
-          client.accountant_id,
-          client.client_id,
-          client.campaign_id
-        );
-
-        await db.query(
-          `UPDATE campaign_clients
-           SET reminder_6_sent_at = NOW()
-           WHERE id = $1`,
-          [client.id]
-        );
-
-        results.success++;
-        console.log(`✅ Reminder 2 (Day ${client.reminder_2_days}) sent to ${client.client_name} (${client.client_phone})`);
-      } catch (error) {
-        results.failed++;
-        const errorMsg = `Failed to send Reminder 2 to ${client.client_name}: ${error}`;
-        results.errors.push(errorMsg);
-        console.error(`❌ ${errorMsg}`);
+/**
+ * Run one due step for a client and record the outcome in the step log
+ * Returns null if another run claimed the step first.
+ */
+async function executeReminderStep(step: DueReminderStep): Promise<ReminderStepLog['status'] | null> {
+  if (!(await claimReminderStep(step))) {
+    return null;
+  }
+
+  let status: ReminderStepLog['status'] = 'sent';
+  let error: string | null = null;
+
+  try {
+    if (step.channel) {
+      const delivered = await sendStepMessage(step);
+      if (!delivered) {
+        status = 'skipped';
+        error = `No ${step.channel} contact details for client`;
       }
     }
-  } catch (error) {
-    console.error('❌ Error in sendReminder2:', error);
-    results.errors.push(`Database error: ${error}`);
+  } catch (sendError) {
+    // Release the claim so the next run tries again
+    await db.query(
+      `DELETE FROM reminder_step_log
+       WHERE campaign_client_id = $1 AND step_id = $2 AND status = 'claimed'`,
+      [step.campaign_client_id, step.step_id]
+    );
+    throw sendError;
   }
 
-  console.log(`📊 Reminder 2 - Success: ${results.success}, Failed: ${results.failed}`);
-  return results;
+  if (step.action) {
+    await runStepAction(step);
+    status = step.action === 'escalate' ? 'escalated' : 'flagged';
+  }
+
+  await db.query(
+    `UPDATE reminder_step_log
+     SET status = $3, error = $4
+     WHERE campaign_client_id = $1 AND step_id = $2`,
+    [step.campaign_client_id, step.step_id, status, error]
+  );
+
+  await clearDeferral(step.campaign_client_id);
+
+  return status;
 }
 
 /**
- * Flag Failed Clients
- * Marks clients as "failed" based on campaign's custom reminder_3_days setting
+ * Run Reminder Steps
+ * Evaluates every campaign's reminder sequence and runs whichever steps are due now
  */
-export async function flagFailedClients(): Promise<{ flagged: number; errors: string[] }> {
-  console.log('🚩 [Reminder Service] Checking for failed clients...');
+export async function runReminderSteps(): Promise<ReminderRunResults> {
+  console.log('🔔 [Reminder Service] Checking for due reminder steps...');
 
-  const results = {
+  const results: ReminderRunResults = {
+    sent: 0,
+    skipped: 0,
+    deferred: 0,
     flagged: 0,
-    errors: [] as string[],
+    failed: 0,
+    errors: [],
   };
 
   try {
-    const query = `
-      SELECT
-        cc.id,
-        c.name as client_name,
-        cc.first_message_sent_at,
-        camp.reminder_3_days
-      FROM campaign_clients cc
-      JOIN clients c ON cc.client_id = c.id
-      JOIN campaigns camp ON cc.campaign_id = camp.id
-      WHERE cc.status = 'pending'
-        AND camp.flag_after_day_9 = true
-        AND cc.first_message_sent_at IS NOT NULL
-        AND cc.first_message_sent_at <= NOW() - (camp.reminder_3_days || ' days')::INTERVAL
-    `;
-
-    const result = await db.query<{ id: string; client_name: string; first_message_sent_at: Date; reminder_3_days: number }>(query);
-
-    if (result.rows.length === 0) {
-      console.log('✅ No clients to flag as failed');
+    const dueSteps = await evaluateReminderSteps(new Date());
+
+    if (dueSteps.length === 0) {
+      console.log('📭 No reminder steps due');
       return results;
     }
 
-    console.log(`🚩 Found ${result.rows.length} clients to flag as failed`);
+    const stepsToRun = dueSteps.filter(step => step.run_now);
+    results.deferred = dueSteps.length - stepsToRun.length;
+
+    console.log(`📬 ${dueSteps.length} reminder steps due, ${stepsToRun.length} to run now`);
 
-    for (const client of result.rows) {
+    // Waiting for the send window is routine; anything else is worth recording against the client
+    for (const step of dueSteps) {
+      if (step.deferred_reason && step.deferred_reason !== 'outside_send_window') {
+        console.log(`⏸️ Step ${step.step_order} for ${step.client_name} deferred: ${step.deferred_reason}`);
+        await recordDeferral(step.campaign_client_id, step.deferred_reason);
+      }
+    }
+
+    for (const step of stepsToRun) {
       try {
-        await db.query(
-          `UPDATE campaign_clients
-           SET status = 'failed', stuck_at = NOW()
-           WHERE id = $1`,
-          [client.id]
-        );
-
-        results.flagged++;
-        console.log(`🚩 Marked ${client.client_name} as failed (Day ${client.reminder_3_days})`);
+        const status = await executeReminderStep(step);
+
+        if (status === null) {
+          console.log(`⏭️ Step ${step.step_order} for ${step.client_name} already claimed by another run`);
+        } else if (status === 'sent') {
+          results.sent++;
+          console.log(`✅ Step ${step.step_order} (Day ${step.delay_days}, ${step.channel}) sent to ${step.client_name}`);
+        } else if (status === 'skipped') {
+          results.skipped++;
+          console.log(`⏭️ Step ${step.step_order} skipped for ${step.client_name} (no ${step.channel} contact details)`);
+        } else {
+          results.flagged++;
+          console.log(`🚩 Marked ${step.client_name} as failed (Step ${step.step_order}, Day ${step.delay_days}, ${status})`);
+        }
       } catch (error) {
-        const errorMsg = `Failed to flag ${client.client_name} as failed: ${error}`;
+        results.failed++;
+        const errorMsg = `Failed to run step ${step.step_order} for ${step.client_name}: ${error}`;
         results.errors.push(errorMsg);
         console.error(`❌ ${errorMsg}`);
       }
     }
   } catch (error) {
-    console.error('❌ Error in flagFailedClients:', error);
+    console.error('❌ Error in runReminderSteps:', error);
     results.errors.push(`Database error: ${error}`);
   }
 
-  console.log(`📊 Failed Clients - Flagged: ${results.flagged}`);
+  console.log(`📊 Reminder Steps - Sent: ${results.sent}, Skipped: ${results.skipped}, Deferred: ${results.deferred}, Flagged: ${results.flagged}, Failed: ${results.failed}`);
   return results;
 }
 
@@ -341,10 +619,16 @@ export async function runAllReminderChecks(): Promise<void> {
   console.log(`📅 Timestamp: ${new Date().toISOString()}\n`);
 
   try {
-    // Run all checks in sequence
-    await sendReminder1();
-    await sendReminder2();
-    await flagFailedClients();
+    // Only one instance runs the checks at a time
+    const run = await withAdvisoryLock('reminder_checks', async () => {
+      const results = await runReminderSteps();
+      await completeFinishedCampaigns();
+      return results;
+    });
+
+    if (!run.acquired) {
+      console.log('⏭️ Reminder checks already running on another instance, skipping');
+    }
   } catch (error) {
     console.error('❌ Error in runAllReminderChecks:', error);
   }
@@ -364,13 +648,6 @@ export function startScheduledJobs(): void {
   });
 
   console.log('✅ Scheduled reminder jobs started (runs every hour)');
-  console.log('   - Checks for Reminder 1 (custom days per campaign)');
-  console.log('   - Checks for Reminder 2 (custom days per campaign)');
-  console.log('   - Checks for failed clients (custom days per campaign)');
+  console.log('   - Runs each campaign\'s reminder steps in order');
   console.log('   - Respects each campaign\'s configured send time\n');
 }
-
-// Keep legacy function names for backward compatibility with test endpoints
-export const sendDay3Reminders = sendReminder1;
-export const sendDay6Reminders = sendReminder2;
-export const flagStuckClients = flagFailedClients; // Legacy name compatibility
@@ -0,0 +1,184 @@
+import { db } from '../lib/db.js';
+import { ReminderStep, ReminderChannel, ReminderTemplate, ReminderAction } from '../types/index.js';
+
+export type ReminderStepInput = Pick<ReminderStep, 'delay_days' | 'channel' | 'template' | 'action'>;
+
+const CHANNELS: ReminderChannel[] = ['whatsapp', 'email'];
+const TEMPLATES: ReminderTemplate[] = ['document_reminder', 'document_request'];
+const ACTIONS: ReminderAction[] = ['flag', 'escalate'];
+
+export const MAX_REMINDER_STEPS = 10;
+
+/**
+ * Steps equivalent to the old reminder_day_3 / reminder_day_6 / flag_after_day_9 settings
+ * Used when a campaign is created or updated with the legacy fields instead of reminder_steps.
+ */
+export function legacyReminderSteps(settings: {
+  reminder_day_3?: boolean;
+  reminder_day_6?: boolean;
+  flag_after_day_9?: boolean;
+  reminder_1_days?: number;
+  reminder_2_days?: number;
+  reminder_3_days?: number;
+}): ReminderStepInput[] {
+  const steps: ReminderStepInput[] = [];
+
+  if (settings.reminder_day_3 !== false) {
+    steps.push({ delay_days: settings.reminder_1_days || 3, channel: 'whatsapp', template: 'document_reminder', action: null });
+  }
+  if (settings.reminder_day_6 !== false) {
+    steps.push({ delay_days: settings.reminder_2_days || 6, channel: 'whatsapp', template: 'document_reminder', action: null });
+  }
+  if (settings.flag_after_day_9 !== false) {
+    steps.push({ delay_days: settings.reminder_3_days || 9, channel: null, template: null, action: 'flag' });
+  }
+
+  return steps;
+}
+
+/**
+ * Check whether a request body contains any of the legacy schedule fields
+ */
+export function hasLegacyReminderFields(body: Record<string, unknown>): boolean {
+  return ['reminder_day_3', 'reminder_day_6', 'flag_after_day_9', 'reminder_1_days', 'reminder_2_days', 'reminder_3_days']
+    .some(field => body[field] !== undefined);
+}
+
+/**
+ * Validate a reminder_steps array from a request body
+ * Each step needs a whole number of days and either a message (channel + template) or an action.
+ */
+export function validateReminderSteps(input: unknown): { steps: ReminderStepInput[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'reminder_steps must be an array' };
+  }
+
+  if (input.length > MAX_REMINDER_STEPS) {
+    return { error: `A campaign can have at most ${MAX_REMINDER_STEPS} reminder steps` };
+  }
+
+  const steps: ReminderStepInput[] = [];
+
+  for (const [index, raw] of input.entries()) {
+    const label = `Step ${index + 1}`;
+
+    if (!raw || typeof raw !== 'object') {
+      return { error: `${label} must be an object` };
+    }
+
+    const { delay_days, channel = null, template = null, action = null } = raw as Record<string, any>;
+
+    if (!Number.isInteger(delay_days) || delay_days < 1) {
+      return { error: `${label}: delay_days must be a whole number of days (1 or more)` };
+    }
+    if (channel !== null && !CHANNELS.includes(channel)) {
+      return { error: `${label}: channel must be one of ${CHANNELS.join(', ')}` };
+    }
+    if (template !== null && !TEMPLATES.includes(template)) {
+      return { error: `${label}: template must be one of ${TEMPLATES.join(', ')}` };
+    }
+    if (action !== null && !ACTIONS.includes(action)) {
+      return { error: `${label}: action must be one of ${ACTIONS.join(', ')}` };
+    }
+    if (channel === null && action === null) {
+      return { error: `${label}: needs a channel, an action, or both` };
+    }
+
+    steps.push({
+      delay_days,
+      channel,
+      // Messages default to the reminder template
+      template: channel ? template || 'document_reminder' : null,
+      action,
+    });
+  }
+
+  return { steps };
+}
+
+/**
+ * Get a campaign's reminder steps in order
+ */
+export async function getReminderSteps(campaignId: string): Promise<ReminderStep[]> {
+  const result = await db.query<ReminderStep>(
+    `SELECT * FROM campaign_reminder_steps
+     WHERE campaign_id = $1
+     ORDER BY step_order`,
+    [campaignId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Replace a campaign's reminder steps
+ *
+ * Steps whose position and settings haven't changed keep their id, so clients who
+ * already went through them aren't sent them again.
+ */
+export async function setReminderSteps(campaignId: string, steps: ReminderStepInput[]): Promise<ReminderStep[]> {
+  const existing = await getReminderSteps(campaignId);
+
+  const unchanged = (step: ReminderStep, index: number) => {
+    const input = steps[index];
+    return !!input &&
+      step.step_order === index + 1 &&
+      step.delay_days === input.delay_days &&
+      step.channel === input.channel &&
+      step.template === input.template &&
+      step.action === input.action;
+  };
+
+  const toDelete = existing.filter((step, index) => !unchanged(step, index)).map(step => step.id);
+  if (toDelete.length > 0) {
+    await db.query(
+      `DELETE FROM campaign_reminder_steps WHERE id = ANY($1::uuid[])`,
+      [toDelete]
+    );
+  }
+
+  for (const [index, step] of steps.entries()) {
+    if (existing[index] && unchanged(existing[index], index)) {
+      continue;
+    }
+
+    await db.query(
+      `INSERT INTO campaign_reminder_steps (campaign_id, step_order, delay_days, channel, template, action)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [campaignId, index + 1, step.delay_days, step.channel, step.template, step.action]
+    );
+  }
+
+  return getReminderSteps(campaignId);
+}
+
+/**
+ * Short human-readable summary of a schedule for logs, e.g. "3d whatsapp, 6d whatsapp, 9d flag"
+ */
+export function describeReminderSteps(steps: ReminderStepInput[]): string {
+  if (steps.length === 0) {
+    return 'no reminders';
+  }
+
+  return steps
+    .map(step => `${step.delay_days}d ${[step.channel, step.action].filter(Boolean).join('+')}`)
+    .join(', ');
+}
+
+/**
+ * Apply legacy schedule fields from a PATCH on top of a campaign's current steps
+ * Fields that weren't sent keep whatever the current steps say.
+ */
+export function mergeLegacyReminderSteps(current: ReminderStep[], body: Record<string, any>): ReminderStepInput[] {
+  const messages = current.filter(step => step.channel && !step.action);
+  const flag = current.find(step => step.action);
+
+  return legacyReminderSteps({
+    reminder_day_3: body.reminder_day_3 ?? !!messages[0],
+    reminder_day_6: body.reminder_day_6 ?? !!messages[1],
+    flag_after_day_9: body.flag_after_day_9 ?? !!flag,
+    reminder_1_days: body.reminder_1_days ?? messages[0]?.delay_days,
+    reminder_2_days: body.reminder_2_days ?? messages[1]?.delay_days,
+    reminder_3_days: body.reminder_3_days ?? flag?.delay_days,
+  });
+}
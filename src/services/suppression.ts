@@ -0,0 +1,225 @@
+import { db } from '../lib/db.js';
+import { createNotification } from '../routes/notifications.js';
+
+export interface SuppressedNumber {
+  id: string;
+  accountant_id: string;
+  phone: string;
+  client_id: string | null;
+  client_name?: string | null;
+  keyword: string | null;
+  created_at: Date;
+}
+
+export interface OptOutEvent {
+  id: string;
+  accountant_id: string;
+  phone: string;
+  client_id: string | null;
+  action: 'opted_out' | 'cleared';
+  keyword: string | null;
+  body: string | null;
+  twilio_sid: string | null;
+  created_at: Date;
+}
+
+// Always honoured, whatever the practice has configured
+export const DEFAULT_OPT_OUT_KEYWORDS = ['STOP', 'UNSUBSCRIBE'];
+
+const MAX_KEYWORD_LENGTH = 50;
+
+/**
+ * Thrown when a message would go to a number that has opted out
+ */
+export class SuppressedNumberError extends Error {
+  constructor(public phone: string) {
+    super(`${phone} has opted out of messages`);
+    this.name = 'SuppressedNumberError';
+  }
+}
+
+function normalizePhone(phone: string): string {
+  return phone.replace('whatsapp:', '').trim();
+}
+
+/**
+ * Upper-case a keyword and drop surrounding punctuation/whitespace ("Stop." -> "STOP")
+ */
+export function normalizeKeyword(text: string): string {
+  return text.trim().toUpperCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+}
+
+/**
+ * Validate a practice's opt-out synonyms from a request body
+ */
+export function validateOptOutKeywords(input: unknown): { keywords: string[] } | { error: string } {
+  if (!Array.isArray(input) || input.some(keyword => typeof keyword !== 'string')) {
+    return { error: 'optOutKeywords must be an array of words' };
+  }
+
+  const keywords = [...new Set(input.map(normalizeKeyword).filter(Boolean))];
+
+  if (keywords.some(keyword => keyword.length > MAX_KEYWORD_LENGTH)) {
+    return { error: `Opt-out keywords must be at most ${MAX_KEYWORD_LENGTH} characters` };
+  }
+
+  return { keywords };
+}
+
+/**
+ * The words that opt a client out for one practice: the defaults plus its own synonyms
+ */
+export async function getOptOutKeywords(accountantId: string): Promise<string[]> {
+  const result = await db.query<{ opt_out_keywords: string[] | null }>(
+    `SELECT opt_out_keywords FROM accountants WHERE id = $1`,
+    [accountantId]
+  );
+
+  return [...new Set([...DEFAULT_OPT_OUT_KEYWORDS, ...(result.rows[0]?.opt_out_keywords || [])])];
+}
+
+/**
+ * The opt-out keyword a message consists of, or null
+ * Only a message that is just the keyword counts, so "please don't stop reminding me" doesn't opt out.
+ */
+export function matchOptOutKeyword(body: string | null | undefined, keywords: string[]): string | null {
+  if (!body) {
+    return null;
+  }
+
+  const normalized = normalizeKeyword(body);
+  return keywords.find(keyword => normalizeKeyword(keyword) === normalized) || null;
+}
+
+/**
+ * Check whether a practice may not message a number
+ */
+export async function isSuppressed(accountantId: string, phone: string): Promise<boolean> {
+  const result = await db.query(
+    `SELECT 1 FROM suppressed_numbers WHERE accountant_id = $1 AND phone = $2`,
+    [accountantId, normalizePhone(phone)]
+  );
+
+  return result.rows.length > 0;
+}
+
+/**
+ * Refuse to message a suppressed number
+ */
+export async function assertNotSuppressed(accountantId: string, phone: string): Promise<void> {
+  if (await isSuppressed(accountantId, phone)) {
+    throw new SuppressedNumberError(normalizePhone(phone));
+  }
+}
+
+/**
+ * Opt a number out of a practice's messages after an inbound keyword
+ *
+ * Records the audit entry first - its unique twilio_sid makes a webhook retry a no-op -
+ * then adds the number to the suppression list and tells the accountant.
+ * Returns false if this message was already handled.
+ */
+export async function recordOptOut(options: {
+  accountantId: string;
+  phone: string;
+  clientId: string | null;
+  clientName: string | null;
+  keyword: string;
+  body: string;
+  twilioSid: string;
+}): Promise<boolean> {
+  const phone = normalizePhone(options.phone);
+
+  const eventResult = await db.query(
+    `INSERT INTO opt_out_events (accountant_id, phone, client_id, action, keyword, body, twilio_sid)
+     VALUES ($1, $2, $3, 'opted_out', $4, $5, $6)
+     ON CONFLICT (accountant_id, twilio_sid) DO NOTHING
+     RETURNING id`,
+    [options.accountantId, phone, options.clientId, options.keyword, options.body, options.twilioSid]
+  );
+
+  if (eventResult.rows.length === 0) {
+    return false;
+  }
+
+  await db.query(
+    `INSERT INTO suppressed_numbers (accountant_id, phone, client_id, keyword)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (accountant_id, phone) DO NOTHING`,
+    [options.accountantId, phone, options.clientId, options.keyword]
+  );
+
+  const who = options.clientName ? `${options.clientName} (${phone})` : phone;
+
+  await createNotification(
+    options.accountantId,
+    'client_opted_out',
+    'Client Opted Out',
+    `${who} replied "${options.body.trim()}" and won't receive any more WhatsApp messages. Clear them from the suppression list if they ask to hear from you again.`,
+    options.clientName || undefined
+  );
+
+  console.log(`🚫 ${who} opted out (${options.keyword})`);
+  return true;
+}
+
+/**
+ * A practice's suppression list, newest first
+ */
+export async function listSuppressedNumbers(accountantId: string): Promise<SuppressedNumber[]> {
+  const result = await db.query<SuppressedNumber>(
+    `SELECT s.*, c.name as client_name
+     FROM suppressed_numbers s
+     LEFT JOIN clients c ON s.client_id = c.id
+     WHERE s.accountant_id = $1
+     ORDER BY s.created_at DESC`,
+    [accountantId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Remove a number from the suppression list, recording who cleared it
+ * Returns the removed entry, or null if it doesn't belong to the practice.
+ */
+export async function clearSuppressedNumber(
+  accountantId: string,
+  suppressionId: string
+): Promise<SuppressedNumber | null> {
+  const result = await db.query<SuppressedNumber>(
+    `DELETE FROM suppressed_numbers
+     WHERE id = $1 AND accountant_id = $2
+     RETURNING *`,
+    [suppressionId, accountantId]
+  );
+
+  const cleared = result.rows[0];
+  if (!cleared) {
+    return null;
+  }
+
+  await db.query(
+    `INSERT INTO opt_out_events (accountant_id, phone, client_id, action)
+     VALUES ($1, $2, $3, 'cleared')`,
+    [accountantId, cleared.phone, cleared.client_id]
+  );
+
+  console.log(`✅ ${cleared.phone} removed from suppression list`);
+  return cleared;
+}
+
+/**
+ * A practice's opt-out audit trail, newest first
+ */
+export async function listOptOutEvents(accountantId: string, limit: number): Promise<OptOutEvent[]> {
+  const result = await db.query<OptOutEvent>(
+    `SELECT * FROM opt_out_events
+     WHERE accountant_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [accountantId, limit]
+  );
+
+  return result.rows;
+}
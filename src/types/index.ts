@@ -20,6 +20,8 @@ export interface Accountant {
   google_drive_folder_id: string | null;
   google_drive_connected_at: Date | null;
   twilio_phone_number: string | null;
+  timezone: string;
+  opt_out_keywords: string[];
   amy_name: string;
   amy_tone: string;
   contact_details: string | null;
@@ -36,6 +38,12 @@ export interface Client {
   phone: string;
   email: string | null;
   status: string;
+  preferred_contact_time: string | null; // HH:MM:SS, replaces the campaign send time
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  preferred_language: string | null;
+  do_not_contact_until: Date | null;
+  tags: string[];
   created_at: Date;
   updated_at: Date;
 }
@@ -47,33 +55,115 @@ export interface Campaign {
   document_type: string;
   period: string;
   status: string;
-  reminder_day_3: boolean;
-  reminder_day_6: boolean;
-  flag_after_day_9: boolean;
-  reminder_1_days?: number;
-  reminder_2_days?: number;
-  reminder_3_days?: number;
   reminder_send_time?: string;
+  reminder_timezone?: string | null;
+  business_days_only?: boolean;
   initial_message?: string;
+  complete_when?: 'all_received' | 'all_resolved';
   started_at: Date;
   completed_at: Date | null;
+  clients_total?: number | null;
+  clients_received?: number | null;
+  clients_failed?: number | null;
+  success_rate?: string | null; // NUMERIC comes back as a string
+  template_id?: string | null;
+  scheduled_start_at?: Date | null;
   created_at: Date;
 }
 
+export interface CampaignTemplate {
+  id: string;
+  accountant_id: string;
+  name: string;
+  campaign_name: string; // {period} is replaced with the campaign's period
+  document_type: string;
+  items: Array<Pick<CampaignItem, 'document_type' | 'label' | 'required'>>; // empty = just document_type
+  reminder_steps: Array<Pick<ReminderStep, 'delay_days' | 'channel' | 'template' | 'action'>>;
+  reminder_send_time: string;
+  reminder_timezone: string | null;
+  business_days_only: boolean;
+  initial_message: string | null;
+  complete_when: 'all_received' | 'all_resolved';
+  client_ids: string[];
+  client_tags: string[];
+  recurrence: 'monthly' | 'quarterly' | 'cron' | null;
+  recurrence_cron: string | null;
+  period_unit: 'month' | 'quarter';
+  period_offset: number;
+  auto_start: boolean;
+  next_run_at: Date | null;
+  last_run_at: Date | null;
+  last_campaign_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CampaignItem {
+  id: string;
+  campaign_id: string;
+  document_type: string;
+  label: string;
+  required: boolean;
+  item_order: number;
+  created_at: Date;
+}
+
+export interface CampaignClientItem {
+  id: string;
+  campaign_client_id: string;
+  campaign_item_id: string;
+  status: 'pending' | 'awaiting_review' | 'received';
+  received_at: Date | null;
+  updated_at: Date;
+}
+
 export interface CampaignClient {
   id: string;
   campaign_id: string;
   client_id: string;
   status: string;
   first_message_sent_at: Date | null;
-  reminder_1_sent_at: Date | null;
-  reminder_2_sent_at: Date | null;
-  flagged_at: Date | null;
+  reminders_restarted_at: Date | null;
+  stuck_at: Date | null;
   received_at: Date | null;
+  assigned_to: string | null;
+  assigned_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface TeamMember {
+  id: string;
+  accountant_id: string;
+  name: string;
+  email: string | null;
+  created_at: Date;
+}
+
+export type ReminderChannel = 'whatsapp' | 'email';
+export type ReminderTemplate = 'document_reminder' | 'document_request';
+export type ReminderAction = 'flag' | 'escalate';
+
+export interface ReminderStep {
+  id: string;
+  campaign_id: string;
+  step_order: number;
+  delay_days: number;
+  channel: ReminderChannel | null;
+  template: ReminderTemplate | null;
+  action: ReminderAction | null;
+  created_at: Date;
+}
+
+export interface ReminderStepLog {
+  id: string;
+  campaign_client_id: string;
+  step_id: string;
+  status: 'claimed' | 'sent' | 'skipped' | 'flagged' | 'escalated';
+  error: string | null;
+  created_at: Date;
+}
+
 export interface Message {
   id: string;
   accountant_id: string;
@@ -94,12 +184,19 @@ export interface Document {
   campaign_id: string | null;
   original_filename: string | null;
   original_url: string | null;
+  mime_type: string | null;
   drive_file_id: string | null;
   drive_file_url: string | null;
   csv_drive_file_id: string | null;
   csv_drive_file_url: string | null;
   conversion_status: string;
   conversion_error: string | null;
+  twilio_message_sid: string | null;
+  media_index: number | null;
+  campaign_item_id: string | null;
+  review_status: 'awaiting_review' | 'accepted' | 'rejected';
+  rejection_reason: string | null;
+  reviewed_at: Date | null;
   created_at: Date;
 }
 
@@ -136,6 +233,7 @@ export interface DashboardData {
     total: number;
     received: number;
     pending: number;
+    awaiting_review: number;
     failed: number;
     clients: Array<{
       id: string;